@@ -1,12 +1,14 @@
 import { Action, ActionPanel, Form, showToast, Toast, useNavigation } from "@raycast/api";
 import { useForm } from "@raycast/utils";
+import { useState } from "react";
 import { addSpec, fetchSpec, cacheSpec, generateSpecId } from "./lib/storage";
 import { getBaseUrl, parseAndValidateSpec } from "./lib/openapi-parser";
-import { validateUrl } from "./lib/validation";
+import { isValidUrl, validateUrl } from "./lib/validation";
+import { hasConnectionSettings } from "./lib/http-client";
 import { showErrorToast } from "./lib/toast-utils";
 import { readFile } from "fs/promises";
-import { BrowseEndpoints } from "./components";
-import { OpenAPISpec } from "./types/openapi";
+import { BrowseEndpoints, ConnectionFields } from "./components";
+import { ConnectionSettings, OpenAPISpec } from "./types/openapi";
 import popularSpecs from "./data/popular-specs.json";
 
 type SourceType = "popular" | "url" | "paste" | "file";
@@ -27,6 +29,7 @@ interface FormValues {
   content: string;
   filePath: string[];
   name: string;
+  baseUrl: string;
 }
 
 export interface AddOpenAPISpecProps {
@@ -37,13 +40,22 @@ export interface AddOpenAPISpecProps {
 
 export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrlTemplate }: AddOpenAPISpecProps = {}) {
   const { push, pop } = useNavigation();
+  const [useConnection, setUseConnection] = useState(false);
+  const [connectionSettings, setConnectionSettings] = useState<ConnectionSettings>({});
 
-  const { handleSubmit, itemProps, values } = useForm<FormValues>({
+  const { handleSubmit, itemProps, values, setValidationError } = useForm<FormValues>({
     async onSubmit(values) {
       try {
         let spec: OpenAPISpec;
         let sourceUrl: string | undefined;
         let docsUrlTemplate: string | undefined = initialDocsUrlTemplate;
+        const connection =
+          values.sourceType === "url" && useConnection && hasConnectionSettings(connectionSettings)
+            ? connectionSettings
+            : undefined;
+        if (connection?.proxyUrl && !isValidUrl(connection.proxyUrl)) {
+          throw new Error("Invalid proxy URL");
+        }
 
         switch (values.sourceType) {
           case "popular": {
@@ -69,7 +81,7 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
               title: "Fetching OpenAPI spec...",
             });
 
-            spec = await fetchSpec(values.url);
+            spec = await fetchSpec(values.url, undefined, connection);
             sourceUrl = values.url;
             break;
           }
@@ -97,7 +109,20 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
           }
         }
 
-        const baseUrl = getBaseUrl(spec);
+        // Fetched specs always resolve to an absolute URL; pasted and file specs may need one entered
+        const enteredBaseUrl =
+          values.sourceType === "paste" || values.sourceType === "file" ? values.baseUrl.trim() : "";
+        const baseUrl = enteredBaseUrl || getBaseUrl(spec);
+        if (!baseUrl) {
+          setValidationError("baseUrl", "This spec has no absolute server URL, please enter a base URL");
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Base URL required",
+            message: "The spec does not declare an absolute server URL",
+          });
+          return;
+        }
+
         const specName = values.name || spec.info.title || "Untitled API";
 
         // Generate ID and cache the spec
@@ -111,6 +136,7 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
             url: sourceUrl || `pasted:${Date.now()}`,
             baseUrl,
             docsUrlTemplate,
+            connection,
           },
           specId,
         );
@@ -138,6 +164,7 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
       content: "",
       filePath: [],
       name: initialName || "",
+      baseUrl: "",
     },
     validation: {
       popularSpec: (value) => {
@@ -160,6 +187,11 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
         if (!value || value.length === 0) return "Please select a file";
         return undefined;
       },
+      baseUrl: (value) => {
+        if (values.sourceType !== "paste" && values.sourceType !== "file") return undefined;
+        if (!value?.trim()) return undefined;
+        return validateUrl(value.trim());
+      },
     },
   });
 
@@ -184,11 +216,21 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
       </Form.Dropdown>
 
       {values.sourceType === "url" && (
-        <Form.TextField
-          {...itemProps.url}
-          title="OpenAPI Spec URL"
-          placeholder="https://api.example.com/openapi.json"
-        />
+        <>
+          <Form.TextField
+            {...itemProps.url}
+            title="OpenAPI Spec URL"
+            placeholder="https://api.example.com/openapi.json"
+          />
+          <Form.Checkbox
+            id="useConnection"
+            label="Custom TLS or proxy settings"
+            info="For APIs behind a private CA, mutual TLS or an HTTP proxy"
+            value={useConnection}
+            onChange={setUseConnection}
+          />
+          {useConnection && <ConnectionFields connection={connectionSettings} onChange={setConnectionSettings} />}
+        </>
       )}
 
       {values.sourceType === "paste" && (
@@ -245,6 +287,15 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
         </Form.Dropdown>
       )}
 
+      {(values.sourceType === "paste" || values.sourceType === "file") && (
+        <Form.TextField
+          {...itemProps.baseUrl}
+          title="Base URL"
+          placeholder="https://api.example.com"
+          info="Used for requests. Required when the spec has no servers or only relative server URLs, since there is no spec URL to resolve them against."
+        />
+      )}
+
       <Form.TextField
         {...itemProps.name}
         title="Name (optional)"
@@ -254,7 +305,7 @@ export default function AddOpenAPISpec({ initialUrl, initialName, initialDocsUrl
 
       <Form.Description
         title="Supported Formats"
-        text="JSON and YAML OpenAPI 3.x specs are supported. The spec will be validated before saving."
+        text="JSON and YAML OpenAPI 3.x and Swagger 2.0 specs are supported. The spec will be validated before saving."
       />
     </Form>
   );
@@ -0,0 +1,351 @@
+import { Action, ActionPanel, Form, Icon, List, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { generateExample } from "../lib/example-generator";
+import { getPrimaryType, resolveSchema } from "../lib/openapi-parser";
+import { formatDateValue, getFieldKind, parseDateValue } from "../lib/schema-fields";
+import { Schema } from "../types/openapi";
+
+type BodyObject = Record<string, unknown>;
+
+/**
+ * Whether a request body schema can be edited with form fields
+ */
+export function hasBodyFields(schema: Schema): boolean {
+  return getFieldKind(resolveSchema(schema)) === "object";
+}
+
+function isBodyObject(value: unknown): value is BodyObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function summarizeValue(value: unknown): string {
+  if (value === undefined) {
+    return "Not set";
+  }
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Show strings as typed so partial input like "1." or "{" survives re-rendering
+ */
+function formatInput(value: unknown, pretty = false): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, pretty ? 2 : undefined);
+}
+
+function parseNumberInput(text: string): unknown {
+  if (!text.trim()) return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) && String(number) === text.trim() ? number : text;
+}
+
+function parseJsonInput(text: string): unknown {
+  if (!text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export interface BodyFieldsProps {
+  /** Object schema whose properties become fields */
+  schema: Schema;
+  value: BodyObject;
+  onChange: (value: BodyObject) => void;
+  /** Prefix for form item ids, keeps nested forms unique */
+  idPrefix?: string;
+}
+
+/**
+ * One form field per body property, for use inside a Form.
+ * Nested objects and arrays are edited through BodyFieldActions.
+ */
+export function BodyFields({ schema, value, onChange, idPrefix = "body" }: BodyFieldsProps) {
+  const required = new Set(schema.required || []);
+
+  function setProperty(name: string, propertyValue: unknown) {
+    const next = { ...value };
+    if (propertyValue === undefined) {
+      delete next[name];
+    } else {
+      next[name] = propertyValue;
+    }
+    onChange(next);
+  }
+
+  return (
+    <>
+      {Object.entries(schema.properties || {})
+        // Server-assigned fields can't be sent
+        .filter(([, propSchema]) => !propSchema.readOnly)
+        .map(([name, propSchema]) => {
+          const resolved = resolveSchema(propSchema);
+          const kind = getFieldKind(resolved);
+          const id = `${idPrefix}_${name}`;
+          const title = required.has(name) ? `${name} *` : name;
+          const info = propSchema.description || resolved.description;
+          const current = value[name];
+
+          switch (kind) {
+            case "enum":
+              return (
+                <Form.Dropdown
+                  key={id}
+                  id={id}
+                  title={title}
+                  info={info}
+                  value={current === undefined ? "" : JSON.stringify(current)}
+                  onChange={(key) => setProperty(name, key ? JSON.parse(key) : undefined)}
+                >
+                  <Form.Dropdown.Item value="" title="Not set" />
+                  {resolved.enum!.map((option) => (
+                    <Form.Dropdown.Item
+                      key={JSON.stringify(option)}
+                      value={JSON.stringify(option)}
+                      title={String(option)}
+                    />
+                  ))}
+                </Form.Dropdown>
+              );
+            case "boolean":
+              return (
+                <Form.Checkbox
+                  key={id}
+                  id={id}
+                  title={title}
+                  label={name}
+                  info={info}
+                  value={current === true}
+                  onChange={(checked) => setProperty(name, checked)}
+                />
+              );
+            case "date":
+            case "date-time":
+              return (
+                <Form.DatePicker
+                  key={id}
+                  id={id}
+                  title={title}
+                  info={info}
+                  type={kind === "date" ? Form.DatePicker.Type.Date : Form.DatePicker.Type.DateTime}
+                  value={parseDateValue(current)}
+                  onChange={(date) => setProperty(name, date ? formatDateValue(date, kind) : undefined)}
+                />
+              );
+            case "number":
+              return (
+                <Form.TextField
+                  key={id}
+                  id={id}
+                  title={title}
+                  info={info}
+                  placeholder={getPrimaryType(resolved)}
+                  value={formatInput(current)}
+                  onChange={(text) => setProperty(name, parseNumberInput(text))}
+                />
+              );
+            case "text":
+              return (
+                <Form.TextField
+                  key={id}
+                  id={id}
+                  title={title}
+                  info={info}
+                  placeholder={resolved.format || "string"}
+                  value={formatInput(current)}
+                  onChange={(text) => setProperty(name, text || required.has(name) ? text : undefined)}
+                />
+              );
+            case "object":
+            case "array":
+              return (
+                <Form.Description
+                  key={id}
+                  title={title}
+                  text={`${summarizeValue(current)}\nUse "Edit ${name}" from the actions to change it`}
+                />
+              );
+            case "json":
+              return (
+                <Form.TextArea
+                  key={id}
+                  id={id}
+                  title={title}
+                  info={info || "Any JSON value"}
+                  enableMarkdown={false}
+                  value={formatInput(current, true)}
+                  onChange={(text) => setProperty(name, parseJsonInput(text))}
+                />
+              );
+          }
+        })}
+    </>
+  );
+}
+
+export interface BodyFieldActionsProps {
+  schema: Schema;
+  value: BodyObject;
+  onPropertyChange: (name: string, value: unknown) => void;
+}
+
+/**
+ * "Edit <property>" actions that push sub-forms for nested objects and arrays
+ */
+export function BodyFieldActions({ schema, value, onPropertyChange }: BodyFieldActionsProps) {
+  const nested = Object.entries(schema.properties || {})
+    .filter(([, propSchema]) => !propSchema.readOnly)
+    .map(([name, propSchema]) => [name, resolveSchema(propSchema)] as const)
+    .filter(([, resolved]) => ["object", "array"].includes(getFieldKind(resolved)));
+
+  if (nested.length === 0) {
+    return null;
+  }
+
+  return (
+    <ActionPanel.Section title="Body">
+      {nested.map(([name, resolved]) => (
+        <Action.Push
+          key={name}
+          title={`Edit ${name}`}
+          icon={getFieldKind(resolved) === "array" ? Icon.List : Icon.Pencil}
+          target={getNestedEditor(name, resolved, value[name], (next) => onPropertyChange(name, next))}
+        />
+      ))}
+    </ActionPanel.Section>
+  );
+}
+
+function getNestedEditor(title: string, schema: Schema, value: unknown, onChange: (value: unknown) => void) {
+  switch (getFieldKind(schema)) {
+    case "object":
+      return <BodyObjectForm title={title} schema={schema} value={value} onChange={onChange} />;
+    case "array":
+      return <BodyArrayList title={title} schema={schema} value={value} onChange={onChange} />;
+    default:
+      return <BodyValueForm title={title} schema={schema} value={value} onChange={onChange} />;
+  }
+}
+
+interface NestedEditorProps {
+  title: string;
+  schema: Schema;
+  value: unknown;
+  /** Called on every edit so the parent body stays in sync */
+  onChange: (value: unknown) => void;
+}
+
+function BodyObjectForm({ title, schema, value, onChange }: NestedEditorProps) {
+  const { pop } = useNavigation();
+  const [current, setCurrent] = useState<BodyObject>(() => (isBodyObject(value) ? value : {}));
+
+  function update(next: BodyObject) {
+    setCurrent(next);
+    onChange(next);
+  }
+
+  return (
+    <Form
+      navigationTitle={title}
+      actions={
+        <ActionPanel>
+          <Action title="Done" icon={Icon.Check} onAction={pop} />
+          <BodyFieldActions
+            schema={schema}
+            value={current}
+            onPropertyChange={(name, propertyValue) => update({ ...current, [name]: propertyValue })}
+          />
+        </ActionPanel>
+      }
+    >
+      <BodyFields schema={schema} value={current} onChange={update} idPrefix={title} />
+    </Form>
+  );
+}
+
+function BodyArrayList({ title, schema, value, onChange }: NestedEditorProps) {
+  const [items, setItems] = useState<unknown[]>(() => (Array.isArray(value) ? value : []));
+  const itemSchema = resolveSchema(schema.items || {});
+
+  function update(next: unknown[]) {
+    setItems(next);
+    onChange(next);
+  }
+
+  function addItem() {
+    update([...items, generateExample(itemSchema) ?? null]);
+  }
+
+  const addAction = (
+    <Action title="Add Item" icon={Icon.Plus} shortcut={{ modifiers: ["cmd"], key: "n" }} onAction={addItem} />
+  );
+
+  return (
+    <List navigationTitle={title}>
+      <List.EmptyView
+        title="No Items"
+        description="Add an item to get started"
+        actions={<ActionPanel>{addAction}</ActionPanel>}
+      />
+      {items.map((item, index) => (
+        <List.Item
+          key={index}
+          title={`Item ${index + 1}`}
+          subtitle={summarizeValue(item)}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title="Edit Item"
+                icon={Icon.Pencil}
+                target={getNestedEditor(`${title}[${index}]`, itemSchema, item, (next) =>
+                  update(items.map((existing, i) => (i === index ? next : existing))),
+                )}
+              />
+              {addAction}
+              <Action
+                title="Remove Item"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={() => update(items.filter((_, i) => i !== index))}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * Single-value form for primitive array items, reusing BodyFields with a one-property wrapper
+ */
+function BodyValueForm({ title, schema, value, onChange }: NestedEditorProps) {
+  const { pop } = useNavigation();
+  const [current, setCurrent] = useState<unknown>(value);
+  const wrapper: Schema = { type: "object", properties: { [title]: schema }, required: [title] };
+
+  return (
+    <Form
+      navigationTitle={title}
+      actions={
+        <ActionPanel>
+          <Action title="Done" icon={Icon.Check} onAction={pop} />
+        </ActionPanel>
+      }
+    >
+      <BodyFields
+        schema={wrapper}
+        value={current === undefined ? {} : { [title]: current }}
+        onChange={(next) => {
+          setCurrent(next[title]);
+          onChange(next[title]);
+        }}
+        idPrefix="item"
+      />
+    </Form>
+  );
+}
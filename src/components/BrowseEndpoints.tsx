@@ -1,13 +1,31 @@
-import { Action, ActionPanel, Color, Detail, Icon, List } from "@raycast/api";
+import { Action, ActionPanel, Color, Detail, Icon, List, showToast, Toast } from "@raycast/api";
 import { useEffect, useMemo, useState } from "react";
 import { CurlOptions, generateCompactCurl } from "../lib/curl-generator";
-import { formatEndpointTitle, generateRequestBodyTypeScript, groupEndpointsByTag } from "../lib/openapi-parser";
-import { getMethodColor } from "../lib/colors";
+import { buildSnippetRequest } from "../lib/snippet-request";
+import {
+  formatEndpointTitle,
+  generateRequestBodyTypeScript,
+  generateResponseTypeScript,
+  getResponseContentType,
+  getResponseExample,
+  getSchemaTypeString,
+  getEndpointBaseUrl,
+  groupEndpointsByTag,
+} from "../lib/openapi-parser";
+import { describeAuth, getEndpointAuthOptions } from "../lib/auth";
+import { getMethodColor, getStatusColor } from "../lib/colors";
 import { useOpenApiSpec } from "../hooks/useOpenApiSpec";
-import { getSpecs } from "../lib/storage";
-import { ParsedEndpoint, StoredSpec } from "../types/openapi";
+import { getSpecs, updateSpec } from "../lib/storage";
+import { getActiveEnvironment, getEnvironmentBaseUrl } from "../lib/environments";
+import { getErrorMessage } from "../lib/toast-utils";
+import { AuthProfile } from "../lib/secure-storage";
+import { ParsedEndpoint, ParsedResponse, StoredSpec } from "../types/openapi";
 import { SetTokenForm } from "./SetTokenForm";
+import { SnippetActions } from "./SnippetActions";
+import { ImportCurlRequest } from "./ImportCurlRequest";
 import { RequestForm } from "./RequestForm";
+import { ServerForm } from "./ServerForm";
+import { EnvironmentList } from "./EnvironmentList";
 
 export interface BrowseEndpointsProps {
   spec: StoredSpec;
@@ -21,13 +39,48 @@ function getDocsUrl(template: string | undefined, operationId: string | undefine
   return template.replace("{operationId}", operationId);
 }
 
+// Markdown for one response: content type, headers, generated type and example
+function formatResponseMarkdown(response: ParsedResponse): string {
+  const parts: string[] = [`#### ${response.status}${response.description ? ` — ${response.description}` : ""}`];
+
+  const contentTypes = Object.keys(response.content || {});
+  if (contentTypes.length > 0) {
+    parts.push(contentTypes.map((t) => `\`${t}\``).join(", "));
+  }
+
+  const headers = Object.entries(response.headers || {});
+  if (headers.length > 0) {
+    const headerLines = headers.map(
+      ([name, header]) =>
+        `• **${name}**${header.schema ? ` (${getSchemaTypeString(header.schema)})` : ""}: ${header.description || "No description"}`,
+    );
+    parts.push(`**Headers**\n${headerLines.join("\n")}`);
+  }
+
+  const responseTS = generateResponseTypeScript(response);
+  if (responseTS) {
+    parts.push(`\`\`\`typescript\n${responseTS}\n\`\`\``);
+  }
+
+  const example = getResponseExample(response);
+  if (example !== undefined) {
+    const isJson = getResponseContentType(response)?.includes("json") ?? false;
+    const exampleText = typeof example === "string" && !isJson ? example : JSON.stringify(example, null, 2);
+    parts.push(`**Example**\n\`\`\`${isJson ? "json" : ""}\n${exampleText}\n\`\`\``);
+  }
+
+  return parts.join("\n\n");
+}
+
 // Detail view for a single endpoint
 function EndpointDetail({
   endpoint,
   spec,
   openApiSpec,
   token,
+  authProfile,
   onTokenChange,
+  onSpecChange,
   getEndpointSpecJson,
   availableSpecs,
 }: {
@@ -35,20 +88,25 @@ function EndpointDetail({
   spec: StoredSpec;
   openApiSpec: ReturnType<typeof useOpenApiSpec>["openApiSpec"];
   token: string | undefined;
+  authProfile: AuthProfile | undefined;
   onTokenChange?: () => void;
+  onSpecChange: (spec: StoredSpec) => void;
   getEndpointSpecJson: () => string;
   availableSpecs: StoredSpec[];
 }) {
   const requestBodyTS = useMemo(() => generateRequestBodyTypeScript(endpoint), [endpoint]);
 
+  const environment = getActiveEnvironment(spec);
   const curlOptions: CurlOptions = useMemo(
     () => ({
-      baseUrl: spec.baseUrl || openApiSpec?.servers?.[0]?.url || "https://api.example.com",
+      baseUrl: getEnvironmentBaseUrl(environment) || getEndpointBaseUrl(endpoint, spec, openApiSpec),
       authToken: token,
-      authType: "bearer",
+      ...getEndpointAuthOptions(endpoint, authProfile),
       includeExampleBody: true,
+      connection: spec.connection,
+      variables: environment?.variables,
     }),
-    [spec.baseUrl, openApiSpec?.servers, token],
+    [endpoint, spec, environment, openApiSpec, token, authProfile],
   );
 
   const displayCurlOptions = useMemo(
@@ -74,22 +132,27 @@ function EndpointDetail({
 
     const bodySection = requestBodyTS ? `\n\n### Request Body\n\n\`\`\`typescript\n${requestBodyTS}\n\`\`\`` : "";
 
+    const responsesSection =
+      endpoint.responses.length > 0
+        ? `\n\n### Responses\n\n${endpoint.responses.map(formatResponseMarkdown).join("\n\n")}`
+        : "";
+
     return `
 ## ${endpoint.summary || formatEndpointTitle(endpoint)}
 
 ${endpoint.description || ""}
 
 ### Parameters
-${paramsList}${bodySection}
+${paramsList}${bodySection}${responsesSection}
 
-${endpoint.hasAuth ? "🔒 **Requires authentication**" : ""}
+${endpoint.hasAuth ? `🔒 **Requires authentication** — ${describeAuth(curlOptions)}` : ""}
 
 ### Example
 \`\`\`bash
 ${curlSample}
 \`\`\`
     `.trim();
-  }, [endpoint, curlSample, requestBodyTS]);
+  }, [endpoint, curlSample, requestBodyTS, curlOptions]);
 
   const pathParams = useMemo(() => endpoint.parameters.filter((p) => p.in === "path"), [endpoint.parameters]);
 
@@ -102,7 +165,7 @@ ${curlSample}
           <Detail.Metadata.TagList title="Method">
             <Detail.Metadata.TagList.Item text={endpoint.method} color={getMethodColor(endpoint.method)} />
           </Detail.Metadata.TagList>
-          <Detail.Metadata.Label title="Path" text={endpoint.path} />
+          <Detail.Metadata.Label title={endpoint.webhook ? "Webhook" : "Path"} text={endpoint.path} />
           {endpoint.operationId && <Detail.Metadata.Label title="Operation ID" text={endpoint.operationId} />}
           {pathParams.length > 0 && (
             <>
@@ -112,11 +175,22 @@ ${curlSample}
                 <Detail.Metadata.Label
                   key={param.name}
                   title={`  ${param.name}${param.required ? " *" : ""}`}
-                  text={param.description || param.schema?.type || "string"}
+                  text={param.description || (param.schema ? getSchemaTypeString(param.schema) : "string")}
                 />
               ))}
             </>
           )}
+          {endpoint.responses.length > 0 && (
+            <Detail.Metadata.TagList title="Responses">
+              {endpoint.responses.map((response) => (
+                <Detail.Metadata.TagList.Item
+                  key={response.status}
+                  text={response.status}
+                  color={getStatusColor(response.status)}
+                />
+              ))}
+            </Detail.Metadata.TagList>
+          )}
           <Detail.Metadata.Separator />
           <Detail.Metadata.TagList title="Tags">
             {endpoint.tags.map((t) => (
@@ -127,10 +201,21 @@ ${curlSample}
       }
       actions={
         <ActionPanel>
-          <Action.CopyToClipboard title="Copy as Curl" content={generateCompactCurl(endpoint, curlOptions)} />
+          <SnippetActions getRequest={() => buildSnippetRequest(endpoint, curlOptions)} compactCurl />
           <Action.Push
             title="Build Request"
-            target={<RequestForm endpoint={endpoint} curlOptions={curlOptions} specId={spec.id} specName={spec.name} />}
+            target={
+              <RequestForm
+                endpoint={endpoint}
+                curlOptions={curlOptions}
+                specId={spec.id}
+                specName={spec.name}
+                servers={openApiSpec?.servers}
+                serverSelection={spec.server}
+                onServerChange={onSpecChange}
+                environment={environment}
+              />
+            }
             icon={Icon.Wand}
             shortcut={{ modifiers: ["cmd"], key: "b" }}
           />
@@ -176,43 +261,104 @@ ${curlSample}
   );
 }
 
+// Switch the active environment or manage the spec's environments
+function EnvironmentActions({ spec, onSpecChange }: { spec: StoredSpec; onSpecChange: (spec: StoredSpec) => void }) {
+  async function handleSwitch(environmentId: string | undefined) {
+    try {
+      const updated = await updateSpec(spec.id, { activeEnvironmentId: environmentId });
+      if (updated) {
+        onSpecChange(updated);
+      }
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Switched to ${getActiveEnvironment(updated || spec)?.name || "no environment"}`,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to switch environment",
+        message: getErrorMessage(error),
+      });
+    }
+  }
+
+  return (
+    <>
+      {spec.environments && spec.environments.length > 0 && (
+        <ActionPanel.Submenu
+          title="Switch Environment"
+          icon={Icon.Switch}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+        >
+          <Action
+            title="No Environment"
+            icon={spec.activeEnvironmentId ? Icon.Circle : Icon.CheckCircle}
+            onAction={() => handleSwitch(undefined)}
+          />
+          {spec.environments.map((environment) => (
+            <Action
+              key={environment.id}
+              title={environment.name}
+              icon={environment.id === spec.activeEnvironmentId ? Icon.CheckCircle : Icon.Circle}
+              onAction={() => handleSwitch(environment.id)}
+            />
+          ))}
+        </ActionPanel.Submenu>
+      )}
+      <Action.Push
+        title="Manage Environments"
+        icon={Icon.Globe}
+        target={<EnvironmentList spec={spec} onSpecChange={onSpecChange} />}
+      />
+    </>
+  );
+}
+
 // Separate component for endpoint item to prevent re-renders
 function EndpointListItem({
   endpoint,
   spec,
   openApiSpec,
   token,
+  authProfile,
   onTokenChange,
+  onSpecChange,
   availableSpecs,
 }: {
   endpoint: ParsedEndpoint;
   spec: StoredSpec;
   openApiSpec: ReturnType<typeof useOpenApiSpec>["openApiSpec"];
   token: string | undefined;
+  authProfile: AuthProfile | undefined;
   onTokenChange?: () => void;
+  onSpecChange: (spec: StoredSpec) => void;
   availableSpecs: StoredSpec[];
 }) {
+  const environment = getActiveEnvironment(spec);
   const curlOptions: CurlOptions = useMemo(
     () => ({
-      baseUrl: spec.baseUrl || openApiSpec?.servers?.[0]?.url || "https://api.example.com",
+      baseUrl: getEnvironmentBaseUrl(environment) || getEndpointBaseUrl(endpoint, spec, openApiSpec),
       authToken: token,
-      authType: "bearer",
+      ...getEndpointAuthOptions(endpoint, authProfile),
       includeExampleBody: true,
+      connection: spec.connection,
+      variables: environment?.variables,
     }),
-    [spec.baseUrl, openApiSpec?.servers, token],
+    [endpoint, spec, environment, openApiSpec, token, authProfile],
   );
 
   // Memoize spec JSON - only compute on demand via action
   const getEndpointSpecJson = useMemo(() => {
     return () => {
-      if (!openApiSpec?.paths) return "{}";
-      const pathItem = openApiSpec.paths[endpoint.path];
+      const pathItems = endpoint.webhook ? openApiSpec?.webhooks : openApiSpec?.paths;
+      if (!pathItems) return "{}";
+      const pathItem = pathItems[endpoint.path];
       if (!pathItem) return "{}";
       const methodKey = endpoint.method.toLowerCase() as keyof typeof pathItem;
       const operation = pathItem[methodKey];
       return JSON.stringify({ path: endpoint.path, method: endpoint.method, operation }, null, 2);
     };
-  }, [openApiSpec, endpoint.path, endpoint.method]);
+  }, [openApiSpec, endpoint.path, endpoint.method, endpoint.webhook]);
 
   return (
     <List.Item
@@ -231,6 +377,7 @@ function EndpointListItem({
       accessories={[
         { tag: { value: endpoint.method, color: getMethodColor(endpoint.method) } },
         endpoint.hasAuth ? { icon: Icon.Lock, tooltip: "Requires Auth" } : {},
+        endpoint.webhook ? { icon: Icon.Bolt, tooltip: "Webhook, sent by the API to your server" } : {},
       ]}
       actions={
         <ActionPanel>
@@ -242,7 +389,9 @@ function EndpointListItem({
                 spec={spec}
                 openApiSpec={openApiSpec}
                 token={token}
+                authProfile={authProfile}
                 onTokenChange={onTokenChange}
+                onSpecChange={onSpecChange}
                 getEndpointSpecJson={getEndpointSpecJson}
                 availableSpecs={availableSpecs}
               />
@@ -251,14 +400,31 @@ function EndpointListItem({
           />
           <Action.Push
             title="Build Request"
-            target={<RequestForm endpoint={endpoint} curlOptions={curlOptions} specId={spec.id} specName={spec.name} />}
+            target={
+              <RequestForm
+                endpoint={endpoint}
+                curlOptions={curlOptions}
+                specId={spec.id}
+                specName={spec.name}
+                servers={openApiSpec?.servers}
+                serverSelection={spec.server}
+                onServerChange={onSpecChange}
+                environment={environment}
+              />
+            }
             icon={Icon.Wand}
           />
-          <Action.CopyToClipboard
-            title="Copy as Curl"
-            content={generateCompactCurl(endpoint, curlOptions)}
+          <SnippetActions
+            getRequest={() => buildSnippetRequest(endpoint, curlOptions)}
+            compactCurl
             shortcut={{ modifiers: ["cmd"], key: "c" }}
           />
+          <Action.Push
+            title="Paste Curl Command"
+            target={<ImportCurlRequest specs={[spec]} />}
+            icon={Icon.Terminal}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+          />
           <Action.CopyToClipboard
             title="Copy Spec JSON"
             content={getEndpointSpecJson()}
@@ -273,16 +439,28 @@ function EndpointListItem({
               shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
             />
           )}
+          {openApiSpec?.servers && openApiSpec.servers.length > 0 && (
+            <Action.Push
+              title="Select Server"
+              target={<ServerForm spec={spec} servers={openApiSpec.servers} onSave={onSpecChange} />}
+              icon={Icon.Globe}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+            />
+          )}
+          <EnvironmentActions spec={spec} onSpecChange={onSpecChange} />
         </ActionPanel>
       }
     />
   );
 }
 
-export function BrowseEndpoints({ spec, onTokenChange, initialSearchText }: BrowseEndpointsProps) {
-  const { openApiSpec, endpoints, token, isLoading } = useOpenApiSpec(spec);
+export function BrowseEndpoints({ spec: initialSpec, onTokenChange, initialSearchText }: BrowseEndpointsProps) {
+  // Keep a local copy so server selection changes apply without reloading the spec
+  const [spec, setSpec] = useState<StoredSpec>(initialSpec);
+  const { openApiSpec, endpoints, token, authProfile, isLoading } = useOpenApiSpec(spec);
   const [selectedGroup, setSelectedGroup] = useState<string>("all");
   const [availableSpecs, setAvailableSpecs] = useState<StoredSpec[]>([]);
+  const environment = getActiveEnvironment(spec);
 
   // Load available specs for the token form
   useEffect(() => {
@@ -308,7 +486,7 @@ export function BrowseEndpoints({ spec, onTokenChange, initialSearchText }: Brow
     <List
       isLoading={isLoading}
       searchBarPlaceholder="Search endpoints..."
-      navigationTitle={spec.name}
+      navigationTitle={environment ? `${spec.name} · ${environment.name}` : spec.name}
       filtering={true}
       throttle={true}
       {...(initialSearchText ? { searchText: initialSearchText } : {})}
@@ -332,7 +510,9 @@ export function BrowseEndpoints({ spec, onTokenChange, initialSearchText }: Brow
               spec={spec}
               openApiSpec={openApiSpec}
               token={token}
+              authProfile={authProfile}
               onTokenChange={onTokenChange}
+              onSpecChange={setSpec}
               availableSpecs={availableSpecs}
             />
           ))}
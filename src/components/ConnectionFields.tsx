@@ -0,0 +1,62 @@
+import { Form } from "@raycast/api";
+import { isValidUrl } from "../lib/validation";
+import { ConnectionSettings } from "../types/openapi";
+
+export interface ConnectionFieldsProps {
+  connection: ConnectionSettings;
+  onChange: (connection: ConnectionSettings) => void;
+}
+
+/**
+ * CA bundle, client certificate, skip-verify and proxy fields, for use inside a Form
+ */
+export function ConnectionFields({ connection, onChange }: ConnectionFieldsProps) {
+  function update(changes: Partial<ConnectionSettings>) {
+    onChange({ ...connection, ...changes });
+  }
+
+  return (
+    <>
+      <Form.FilePicker
+        id="caPath"
+        title="CA Bundle"
+        info="PEM file with extra certificate authorities to trust, e.g. for a private CA"
+        allowMultipleSelection={false}
+        value={connection.caPath ? [connection.caPath] : []}
+        onChange={(paths) => update({ caPath: paths[0] })}
+      />
+      <Form.FilePicker
+        id="certPath"
+        title="Client Certificate"
+        info="PEM certificate for mutual TLS. Can also contain the private key."
+        allowMultipleSelection={false}
+        value={connection.certPath ? [connection.certPath] : []}
+        onChange={(paths) => update({ certPath: paths[0] })}
+      />
+      <Form.FilePicker
+        id="keyPath"
+        title="Client Key"
+        info="PEM private key for the client certificate"
+        allowMultipleSelection={false}
+        value={connection.keyPath ? [connection.keyPath] : []}
+        onChange={(paths) => update({ keyPath: paths[0] })}
+      />
+      <Form.Checkbox
+        id="insecure"
+        label="Skip TLS certificate verification"
+        info="Accept any certificate. Only use this for hosts you trust."
+        value={!!connection.insecure}
+        onChange={(insecure) => update({ insecure })}
+      />
+      <Form.TextField
+        id="proxyUrl"
+        title="Proxy"
+        placeholder="http://proxy.example.com:8080"
+        info="HTTP proxy for fetching the spec and sending requests. Credentials go in the URL."
+        value={connection.proxyUrl || ""}
+        error={connection.proxyUrl && !isValidUrl(connection.proxyUrl) ? "Invalid URL format" : undefined}
+        onChange={(proxyUrl) => update({ proxyUrl: proxyUrl.trim() || undefined })}
+      />
+    </>
+  );
+}
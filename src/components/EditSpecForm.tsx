@@ -1,9 +1,13 @@
 import { Action, ActionPanel, Form, showToast, Toast, useNavigation } from "@raycast/api";
 import { useForm, FormValidation } from "@raycast/utils";
+import { useState } from "react";
 import { fetchSpec, updateSpec } from "../lib/storage";
-import { validateUrl } from "../lib/validation";
+import { getBaseUrl } from "../lib/openapi-parser";
+import { isValidUrl, validateUrl } from "../lib/validation";
 import { getErrorMessage } from "../lib/toast-utils";
-import { StoredSpec } from "../types/openapi";
+import { hasConnectionSettings } from "../lib/http-client";
+import { ConnectionSettings, StoredSpec } from "../types/openapi";
+import { ConnectionFields } from "./ConnectionFields";
 
 interface FormValues {
   name: string;
@@ -18,27 +22,36 @@ export interface EditSpecFormProps {
 
 export function EditSpecForm({ spec, onSave }: EditSpecFormProps) {
   const { pop } = useNavigation();
+  const [connectionSettings, setConnectionSettings] = useState<ConnectionSettings>(spec.connection || {});
 
   const { handleSubmit, itemProps } = useForm<FormValues>({
     async onSubmit(values) {
       try {
+        if (connectionSettings.proxyUrl && !isValidUrl(connectionSettings.proxyUrl)) {
+          throw new Error("Invalid proxy URL");
+        }
+        const connection = hasConnectionSettings(connectionSettings) ? connectionSettings : undefined;
+
         // If URL changed, validate the new spec
         if (values.url !== spec.url) {
           await showToast({
             style: Toast.Style.Animated,
             title: "Validating spec...",
           });
-          const newSpec = await fetchSpec(values.url, spec.id);
+          const newSpec = await fetchSpec(values.url, spec.id, connection);
           await updateSpec(spec.id, {
             name: values.name.trim(),
             url: values.url.trim(),
-            baseUrl: newSpec.servers?.[0]?.url || spec.baseUrl,
+            baseUrl: getBaseUrl(newSpec) || spec.baseUrl,
+            server: undefined, // The previous selection may not exist in the new spec
             docsUrlTemplate: values.docsUrlTemplate.trim() || undefined,
+            connection,
           });
         } else {
           await updateSpec(spec.id, {
             name: values.name.trim(),
             docsUrlTemplate: values.docsUrlTemplate.trim() || undefined,
+            connection,
           });
         }
 
@@ -88,6 +101,10 @@ export function EditSpecForm({ spec, onSave }: EditSpecFormProps) {
         info="Optional URL template for API documentation. Use {operationId} as placeholder."
       />
       <Form.Description title="Base URL" text={spec.baseUrl || "Not set"} />
+      <Form.Separator />
+      <Form.Description title="Connection" text="TLS and proxy settings for fetching the spec and sending requests" />
+      <ConnectionFields connection={connectionSettings} onChange={setConnectionSettings} />
+      <Form.Separator />
       <Form.Description title="Added" text={new Date(spec.addedAt).toLocaleString()} />
     </Form>
   );
@@ -0,0 +1,113 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useForm, FormValidation } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { formatVariableLines, generateEnvironmentId, parseVariableLines } from "../lib/environments";
+import { listAllTokens, StoredToken } from "../lib/secure-storage";
+import { updateSpec } from "../lib/storage";
+import { getErrorMessage } from "../lib/toast-utils";
+import { validateUrl } from "../lib/validation";
+import { Environment, StoredSpec } from "../types/openapi";
+
+interface FormValues {
+  name: string;
+  baseUrl: string;
+  tokenId: string;
+  variables: string;
+}
+
+export interface EnvironmentFormProps {
+  spec: StoredSpec;
+  /** Environment to edit, a new one is added when omitted */
+  environment?: Environment;
+  /** Called with the updated spec after the environment is saved */
+  onSave: (spec: StoredSpec) => void;
+}
+
+export function EnvironmentForm({ spec, environment, onSave }: EnvironmentFormProps) {
+  const { pop } = useNavigation();
+  const [tokens, setTokens] = useState<StoredToken[]>([]);
+
+  useEffect(() => {
+    listAllTokens().then(setTokens);
+  }, []);
+
+  const { handleSubmit, itemProps } = useForm<FormValues>({
+    async onSubmit(values) {
+      try {
+        const saved: Environment = {
+          id: environment?.id || generateEnvironmentId(),
+          name: values.name.trim(),
+          baseUrl: values.baseUrl.trim() || undefined,
+          tokenId: values.tokenId || undefined,
+          variables: parseVariableLines(values.variables),
+        };
+        const environments = spec.environments || [];
+        const updated = await updateSpec(spec.id, {
+          environments: environment
+            ? environments.map((e) => (e.id === environment.id ? saved : e))
+            : [...environments, saved],
+        });
+        if (updated) {
+          onSave(updated);
+        }
+        await showToast({
+          style: Toast.Style.Success,
+          title: environment ? "Environment updated" : "Environment added",
+          message: saved.name,
+        });
+        pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to save environment",
+          message: getErrorMessage(error),
+        });
+      }
+    },
+    initialValues: {
+      name: environment?.name || "",
+      baseUrl: environment?.baseUrl || "",
+      tokenId: environment?.tokenId || "",
+      variables: formatVariableLines(environment?.variables || {}),
+    },
+    validation: {
+      name: FormValidation.Required,
+      baseUrl: (value) => {
+        // Variables are only known once the environment is saved
+        if (!value?.trim() || value.includes("{{")) return undefined;
+        return validateUrl(value.trim());
+      },
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle={environment ? `Edit ${environment.name}` : `New Environment for ${spec.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Environment" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField {...itemProps.name} title="Name" placeholder="staging" />
+      <Form.TextField
+        {...itemProps.baseUrl}
+        title="Base URL"
+        placeholder="https://staging.example.com/v1"
+        info="Replaces the spec's server while the environment is active. Leave empty to keep it."
+      />
+      <Form.Dropdown {...itemProps.tokenId} title="Token">
+        <Form.Dropdown.Item value="" title="Spec Default Token" icon={Icon.Key} />
+        {tokens.map((token) => (
+          <Form.Dropdown.Item key={token.id} value={token.id} title={token.name} icon={Icon.Key} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextArea
+        {...itemProps.variables}
+        title="Variables"
+        placeholder={"tenant=acme\nuserId=42"}
+        info="One name=value per line. Use {{name}} in parameters, bodies, headers and the base URL."
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,129 @@
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, List, showToast, Toast } from "@raycast/api";
+import { useState } from "react";
+import { getEnvironmentBaseUrl } from "../lib/environments";
+import { updateSpec } from "../lib/storage";
+import { getErrorMessage } from "../lib/toast-utils";
+import { Environment, StoredSpec } from "../types/openapi";
+import { EnvironmentForm } from "./EnvironmentForm";
+
+export interface EnvironmentListProps {
+  spec: StoredSpec;
+  /** Called with the updated spec whenever environments change */
+  onSpecChange: (spec: StoredSpec) => void;
+}
+
+export function EnvironmentList({ spec: initialSpec, onSpecChange }: EnvironmentListProps) {
+  // Keep a local copy, pushed views don't receive the parent's updates
+  const [spec, setSpec] = useState<StoredSpec>(initialSpec);
+  const environments = spec.environments || [];
+
+  function handleChange(updated: StoredSpec) {
+    setSpec(updated);
+    onSpecChange(updated);
+  }
+
+  async function save(updates: Pick<StoredSpec, "environments" | "activeEnvironmentId">, title: string) {
+    try {
+      const updated = await updateSpec(spec.id, updates);
+      if (updated) {
+        handleChange(updated);
+      }
+      await showToast({ style: Toast.Style.Success, title });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update environments",
+        message: getErrorMessage(error),
+      });
+    }
+  }
+
+  async function handleDelete(environment: Environment) {
+    const confirmed = await confirmAlert({
+      title: "Delete Environment",
+      message: `Are you sure you want to delete "${environment.name}"?`,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+
+    if (confirmed) {
+      await save(
+        {
+          environments: environments.filter((e) => e.id !== environment.id),
+          activeEnvironmentId: spec.activeEnvironmentId === environment.id ? undefined : spec.activeEnvironmentId,
+        },
+        "Environment deleted",
+      );
+    }
+  }
+
+  const addAction = (
+    <Action.Push
+      title="Add Environment"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<EnvironmentForm spec={spec} onSave={handleChange} />}
+    />
+  );
+
+  return (
+    <List navigationTitle={`Environments for ${spec.name}`}>
+      <List.EmptyView
+        title="No Environments"
+        description="Add environments like local, staging and prod, each with its own base URL, token and variables."
+        icon={Icon.Globe}
+        actions={<ActionPanel>{addAction}</ActionPanel>}
+      />
+      {environments.map((environment) => {
+        const isActive = environment.id === spec.activeEnvironmentId;
+        const variableCount = Object.keys(environment.variables).length;
+        return (
+          <List.Item
+            key={environment.id}
+            title={environment.name}
+            subtitle={getEnvironmentBaseUrl(environment) || "Spec server"}
+            icon={{ source: Icon.Globe, tintColor: isActive ? Color.Green : Color.SecondaryText }}
+            accessories={[
+              { text: `${variableCount} ${variableCount === 1 ? "variable" : "variables"}` },
+              environment.tokenId ? { icon: Icon.Key, tooltip: "Uses its own token" } : {},
+              isActive ? { tag: { value: "Active", color: Color.Green } } : {},
+            ]}
+            actions={
+              <ActionPanel>
+                {isActive ? (
+                  <Action
+                    title="Deactivate Environment"
+                    icon={Icon.XMarkCircle}
+                    onAction={() => save({ activeEnvironmentId: undefined }, "Environment deactivated")}
+                  />
+                ) : (
+                  <Action
+                    title="Activate Environment"
+                    icon={Icon.CheckCircle}
+                    onAction={() => save({ activeEnvironmentId: environment.id }, `Switched to ${environment.name}`)}
+                  />
+                )}
+                <Action.Push
+                  title="Edit Environment"
+                  icon={Icon.Pencil}
+                  shortcut={{ modifiers: ["cmd"], key: "e" }}
+                  target={<EnvironmentForm spec={spec} environment={environment} onSave={handleChange} />}
+                />
+                {addAction}
+                <Action
+                  title="Delete Environment"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() => handleDelete(environment)}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
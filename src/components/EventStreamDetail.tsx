@@ -0,0 +1,123 @@
+import { Action, ActionPanel, Color, Detail, Icon } from "@raycast/api";
+import { useEffect } from "react";
+import { EventStream, EventStreamState, formatEvents } from "../lib/event-stream";
+import { SnippetRequest } from "../lib/snippet-request";
+import { useEventStream } from "../hooks";
+import { SnippetActions } from "./SnippetActions";
+import { JsonExplorer } from "./JsonExplorer";
+
+/** Events shown as markdown, older ones are still copied and explored */
+const MAX_SHOWN_EVENTS = 100;
+
+const STREAM_STATUS: Record<EventStreamState["status"], { text: string; color: Color }> = {
+  connecting: { text: "Connecting", color: Color.SecondaryText },
+  streaming: { text: "Streaming", color: Color.Yellow },
+  closed: { text: "Closed", color: Color.Green },
+  stopped: { text: "Stopped", color: Color.Orange },
+  failed: { text: "Failed", color: Color.Red },
+};
+
+export interface EventStreamDetailProps {
+  stream: EventStream;
+  method: string;
+  path: string;
+  /** Optional spec name */
+  specName?: string;
+  /** Optional request for the "Copy as" actions */
+  snippetRequest?: SnippetRequest;
+}
+
+function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * A text/event-stream response, updated as events arrive
+ */
+export function EventStreamDetail({ stream, method, path, specName, snippetRequest }: EventStreamDetailProps) {
+  const { response, events, status, error } = useEventStream(stream);
+  const isStreaming = status === "connecting" || status === "streaming";
+
+  // Leaving the view ends the stream, nothing would show it anymore
+  useEffect(() => () => stream.stop(), [stream]);
+
+  const shown = events.slice(-MAX_SHOWN_EVENTS);
+  const markdownParts = [
+    `## Events`,
+    events.length > shown.length ? `Showing the last ${shown.length} of ${events.length} events.` : "",
+    shown.length > 0 ? `\`\`\`\n${formatEvents(shown)}\n\`\`\`` : isStreaming ? "Waiting for events…" : "No events.",
+  ];
+  if (error) {
+    markdownParts.push(`**Stream failed:** ${error}`);
+  }
+
+  return (
+    <Detail
+      isLoading={isStreaming}
+      navigationTitle={`${method} ${path} - Stream`}
+      markdown={markdownParts.filter(Boolean).join("\n\n")}
+      metadata={
+        <Detail.Metadata>
+          {specName && <Detail.Metadata.Label title="API" text={specName} />}
+          <Detail.Metadata.Label title="Method" text={method} />
+          <Detail.Metadata.Label title="Path" text={path} />
+          <Detail.Metadata.Separator />
+          {response && (
+            <Detail.Metadata.TagList title="Status">
+              <Detail.Metadata.TagList.Item
+                text={`${response.status} ${response.statusText}`}
+                color={response.status >= 200 && response.status < 300 ? Color.Green : Color.Red}
+              />
+            </Detail.Metadata.TagList>
+          )}
+          <Detail.Metadata.TagList title="Stream">
+            <Detail.Metadata.TagList.Item text={STREAM_STATUS[status].text} color={STREAM_STATUS[status].color} />
+          </Detail.Metadata.TagList>
+          <Detail.Metadata.Label title="Events" text={String(events.length)} />
+          {response && <Detail.Metadata.Label title="URL" text={response.url} />}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          {isStreaming && (
+            <Action
+              title="Stop Stream"
+              icon={Icon.Stop}
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["cmd"], key: "." }}
+              onAction={() => stream.stop()}
+            />
+          )}
+          <Action.CopyToClipboard title="Copy Events" content={formatEvents(events)} />
+          <Action.CopyToClipboard
+            title="Copy Event Data"
+            content={events.map((event) => event.data).join("\n")}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+          />
+          {events.length > 0 && (
+            <Action.Push
+              title="Explore Events"
+              icon={Icon.Tree}
+              shortcut={{ modifiers: ["cmd"], key: "j" }}
+              target={<JsonExplorer value={events.map((event) => ({ ...event, data: parseEventData(event.data) }))} />}
+            />
+          )}
+          {snippetRequest && (
+            <SnippetActions getRequest={() => snippetRequest} shortcut={{ modifiers: ["cmd"], key: "c" }} />
+          )}
+          {response && (
+            <Action.CopyToClipboard
+              title="Copy URL"
+              content={response.url}
+              shortcut={{ modifiers: ["cmd"], key: "u" }}
+            />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,92 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useForm } from "@raycast/utils";
+import { formatRuleLines, parseRuleLines } from "../lib/extraction";
+import { validateJsonPath } from "../lib/json-path";
+import { getErrorMessage } from "../lib/toast-utils";
+import { ExtractionRule } from "../types/openapi";
+
+interface FormValues {
+  rules: string;
+  target: string;
+}
+
+export interface ExtractionRulesFormProps {
+  /** What the rules are attached to, e.g. "POST /customers" */
+  title: string;
+  rules: ExtractionRule[];
+  onSave: (rules: ExtractionRule[]) => Promise<void>;
+}
+
+/**
+ * Check each "variable = expression" line, returning the first problem
+ */
+function validateRuleLines(text: string): string | undefined {
+  for (const rule of parseRuleLines(text, "session")) {
+    if (!/^[\w.-]+$/.test(rule.variable)) {
+      return `"${rule.variable}" can't be used as a {{variable}} name`;
+    }
+    if (rule.source === "body") {
+      const error = validateJsonPath(rule.expression);
+      if (error) return error;
+    }
+  }
+  return undefined;
+}
+
+export function ExtractionRulesForm({ title, rules, onSave }: ExtractionRulesFormProps) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps } = useForm<FormValues>({
+    async onSubmit(values) {
+      try {
+        const saved = parseRuleLines(values.rules, values.target as ExtractionRule["target"]);
+        await onSave(saved);
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Extraction rules saved",
+          message: `${saved.length} ${saved.length === 1 ? "rule" : "rules"} for ${title}`,
+        });
+        pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to save extraction rules",
+          message: getErrorMessage(error),
+        });
+      }
+    },
+    initialValues: {
+      rules: formatRuleLines(rules),
+      target: rules[0]?.target || "session",
+    },
+    validation: {
+      rules: (value) => validateRuleLines(value || ""),
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle={`Extraction Rules for ${title}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Rules" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="After Each Response"
+        text="Values are pulled from the response and offered to later requests as {{variable}}."
+      />
+      <Form.TextArea
+        {...itemProps.rules}
+        title="Rules"
+        placeholder={"customerId = $.id\nnextCursor = $.meta.next\nrequestId = header:X-Request-Id"}
+        info="One rule per line: a JSONPath into the JSON body, or header: and a response header name"
+      />
+      <Form.Dropdown {...itemProps.target} title="Store In">
+        <Form.Dropdown.Item value="session" title="Session Variables" icon={Icon.Clock} />
+        <Form.Dropdown.Item value="environment" title="Active Environment" icon={Icon.Globe} />
+      </Form.Dropdown>
+    </Form>
+  );
+}
@@ -0,0 +1,117 @@
+import { Clipboard, Detail, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { CurlOptions } from "../lib/curl-generator";
+import { parseCurlCommand } from "../lib/curl-parser";
+import { getCurlPrefill, matchEndpoint, RequestPrefill, SpecEndpoints, EndpointMatch } from "../lib/request-prefill";
+import { parseEndpoints, resolveServerUrls } from "../lib/openapi-parser";
+import { getEndpointAuthOptions } from "../lib/auth";
+import { getActiveEnvironment, getActiveStoredToken } from "../lib/environments";
+import { fetchSpec, getCachedSpec } from "../lib/storage";
+import { getErrorMessage } from "../lib/toast-utils";
+import { StoredSpec } from "../types/openapi";
+import { RequestForm } from "./RequestForm";
+
+export interface ImportCurlRequestProps {
+  /** Specs to look for the endpoint in */
+  specs: StoredSpec[];
+}
+
+interface ImportResult {
+  match: EndpointMatch;
+  curlOptions: CurlOptions;
+  prefill: RequestPrefill;
+}
+
+async function loadSpecEndpoints(spec: StoredSpec): Promise<SpecEndpoints | undefined> {
+  try {
+    const cached = await getCachedSpec(spec.id);
+    const openApiSpec = cached
+      ? resolveServerUrls(cached, spec.url)
+      : await fetchSpec(spec.url, spec.id, spec.connection);
+    return { spec, openApiSpec, endpoints: parseEndpoints(openApiSpec) };
+  } catch {
+    // A spec that can't be loaded just can't match
+    return undefined;
+  }
+}
+
+/**
+ * Reads a cURL command from the clipboard, finds its endpoint and opens the request builder prefilled
+ */
+export function ImportCurlRequest({ specs }: ImportCurlRequestProps) {
+  const [result, setResult] = useState<ImportResult | undefined>();
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const command = await Clipboard.readText();
+        if (!command?.trim()) {
+          throw new Error("The clipboard is empty");
+        }
+        const parsed = parseCurlCommand(command);
+
+        const candidates = (await Promise.all(specs.map(loadSpecEndpoints))).filter(
+          (candidate): candidate is SpecEndpoints => !!candidate,
+        );
+        const match = matchEndpoint(parsed.method, parsed.url, candidates);
+        if (!match) {
+          throw new Error(`No endpoint in your specs matches ${parsed.method} ${parsed.url}`);
+        }
+
+        // The stored token replaces credentials from the command
+        const storedToken = await getActiveStoredToken(match.spec);
+        const authOptions = getEndpointAuthOptions(match.endpoint, storedToken?.auth);
+        setResult({
+          match,
+          curlOptions: {
+            baseUrl: match.baseUrl,
+            authToken: storedToken?.token,
+            ...authOptions,
+            includeExampleBody: true,
+            connection: match.spec.connection,
+            variables: getActiveEnvironment(match.spec)?.variables,
+          },
+          prefill: getCurlPrefill(parsed, match, storedToken?.token ? authOptions : undefined),
+        });
+      } catch (error) {
+        const message = getErrorMessage(error);
+        setError(message);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to import cURL",
+          message,
+        });
+      }
+    }
+
+    load();
+  }, []);
+
+  if (result) {
+    const { match, curlOptions, prefill } = result;
+    return (
+      <RequestForm
+        endpoint={match.endpoint}
+        curlOptions={curlOptions}
+        specId={match.spec.id}
+        specName={match.spec.name}
+        servers={match.openApiSpec.servers}
+        serverSelection={match.serverSelection || match.spec.server}
+        prefill={prefill}
+        environment={getActiveEnvironment(match.spec)}
+      />
+    );
+  }
+
+  return (
+    <Detail
+      isLoading={!error}
+      markdown={
+        error
+          ? `## Couldn't import the cURL command\n\n${error}\n\nCopy a cURL command whose URL starts with one of your specs' servers, then try again.`
+          : ""
+      }
+    />
+  );
+}
@@ -0,0 +1,156 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useMemo, useState } from "react";
+import {
+  describeJsonValue,
+  formatJsonValue,
+  getJsonChildren,
+  isJsonContainer,
+  isJsonTable,
+  JsonQueryResult,
+  queryJson,
+} from "../lib/json-explorer";
+import { getErrorMessage } from "../lib/toast-utils";
+import { JsonTable } from "./JsonTable";
+
+/** Items listed at once, filters narrow down larger arrays */
+const MAX_ITEMS = 200;
+/** Characters of a value shown in the preview */
+const MAX_PREVIEW_LENGTH = 10000;
+
+export interface JsonExplorerProps {
+  value: unknown;
+  /** JSONPath of the value, "$" for the whole response */
+  path?: string;
+}
+
+interface ExplorerItem extends JsonQueryResult {
+  title: string;
+  preview: string;
+}
+
+function formatPreview(value: unknown): string {
+  const json = JSON.stringify(value, null, 2) ?? "undefined";
+  const truncated =
+    json.length > MAX_PREVIEW_LENGTH
+      ? `${json.slice(0, MAX_PREVIEW_LENGTH)}\n… ${json.length - MAX_PREVIEW_LENGTH} more characters`
+      : json;
+  return `\`\`\`json\n${truncated}\n\`\`\``;
+}
+
+/**
+ * Browse a JSON value by drilling into keys and indexes, or filter it with JSONPath or jq
+ */
+export function JsonExplorer({ value, path = "$" }: JsonExplorerProps) {
+  const [filter, setFilter] = useState("");
+
+  const { items, values, error } = useMemo(() => {
+    try {
+      const results = filter.trim()
+        ? queryJson(value, filter, path).map((result, index) => ({
+            ...result,
+            title: result.path ?? `Result ${index + 1}`,
+          }))
+        : getJsonChildren(value, path).map((child) => ({ ...child, title: child.key }));
+      const items: ExplorerItem[] = results
+        .slice(0, MAX_ITEMS)
+        .map((result) => ({ ...result, preview: formatPreview(result.value) }));
+      return { items, values: results.map((result) => result.value), error: undefined };
+    } catch (err) {
+      return { items: [], values: [], error: getErrorMessage(err) };
+    }
+  }, [value, path, filter]);
+
+  const currentActions = (
+    <ActionPanel.Section title={path}>
+      {isJsonTable(value) && (
+        <Action.Push
+          title="Show as Table"
+          icon={Icon.AppWindowGrid3x3}
+          shortcut={{ modifiers: ["cmd"], key: "t" }}
+          target={<JsonTable rows={value} path={path} />}
+        />
+      )}
+      {filter.trim() && isJsonTable(values) && (
+        <Action.Push
+          title="Show Results as Table"
+          icon={Icon.AppWindowGrid3x3}
+          target={<JsonTable rows={values} path={filter.trim()} />}
+        />
+      )}
+      {filter.trim() && (
+        <Action.CopyToClipboard
+          title="Copy Results"
+          content={JSON.stringify(values, null, 2)}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+        />
+      )}
+    </ActionPanel.Section>
+  );
+
+  return (
+    <List
+      navigationTitle={path}
+      filtering={false}
+      isShowingDetail={items.length > 0}
+      searchText={filter}
+      onSearchTextChange={setFilter}
+      searchBarPlaceholder="Filter with JSONPath ($.items[*].id) or jq (.items[] | select(.active == true))"
+    >
+      {error ? (
+        <List.EmptyView title="Invalid Filter" description={error} icon={Icon.Warning} />
+      ) : (
+        <List.EmptyView
+          title={filter.trim() ? "No Matches" : "Empty"}
+          description={filter.trim() ? `Nothing in ${path} matches ${filter.trim()}` : `${path} has no keys or items`}
+          icon={Icon.Tree}
+        />
+      )}
+      <List.Section
+        title={filter.trim() ? "Results" : describeJsonValue(value)}
+        subtitle={
+          values.length > items.length
+            ? `Showing ${items.length} of ${values.length}, filter to narrow down`
+            : undefined
+        }
+      >
+        {items.map((item, index) => (
+          <List.Item
+            key={`${item.path ?? ""}-${index}`}
+            title={item.title}
+            icon={isJsonContainer(item.value) ? Icon.ChevronRight : Icon.Dot}
+            accessories={[{ text: describeJsonValue(item.value) }]}
+            detail={<List.Item.Detail markdown={item.preview} />}
+            actions={
+              <ActionPanel>
+                {isJsonContainer(item.value) && item.path && (
+                  <Action.Push
+                    title="Open"
+                    icon={Icon.ArrowRight}
+                    target={<JsonExplorer value={item.value} path={item.path} />}
+                  />
+                )}
+                <Action.CopyToClipboard title="Copy Value" content={formatJsonValue(item.value)} />
+                {item.path && (
+                  <Action.CopyToClipboard
+                    title="Copy Path"
+                    content={item.path}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                  />
+                )}
+                {isJsonTable(item.value) && (
+                  <Action.Push
+                    title="Show Value as Table"
+                    icon={Icon.AppWindowGrid3x3}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+                    target={<JsonTable rows={item.value} path={item.path ?? item.title} />}
+                  />
+                )}
+                {currentActions}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,71 @@
+import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
+import { useState } from "react";
+import { formatMarkdownTable, getTableColumns } from "../lib/json-explorer";
+
+/** Columns shown at first, tables wider than this don't fit the detail view */
+const DEFAULT_COLUMN_COUNT = 6;
+
+export interface JsonTableProps {
+  rows: Record<string, unknown>[];
+  /** JSONPath of the array, shown as the title */
+  path: string;
+}
+
+export function JsonTable({ rows, path }: JsonTableProps) {
+  const columns = getTableColumns(rows);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(columns.slice(0, DEFAULT_COLUMN_COUNT));
+
+  function toggleColumn(column: string) {
+    // Keep the original column order rather than the order they were picked in
+    setSelectedColumns((current) => columns.filter((c) => (c === column ? !current.includes(c) : current.includes(c))));
+  }
+
+  const table = formatMarkdownTable(rows, selectedColumns);
+  const hiddenCount = columns.length - selectedColumns.length;
+  const summary = `${rows.length} rows · ${selectedColumns.length} of ${columns.length} columns`;
+
+  return (
+    <Detail
+      navigationTitle={path}
+      markdown={`## ${path}\n\n${summary}${hiddenCount > 0 ? ", pick more with ⌘⇧K" : ""}\n\n${table}`}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Submenu
+            title="Toggle Columns"
+            icon={Icon.List}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+          >
+            {columns.map((column) => (
+              <Action
+                key={column}
+                title={column}
+                icon={selectedColumns.includes(column) ? Icon.CheckCircle : Icon.Circle}
+                onAction={() => toggleColumn(column)}
+              />
+            ))}
+          </ActionPanel.Submenu>
+          <Action.CopyToClipboard
+            title="Copy Table as Markdown"
+            content={formatMarkdownTable(rows, selectedColumns, rows.length)}
+          />
+          <Action.CopyToClipboard
+            title="Copy Rows as JSON"
+            content={JSON.stringify(
+              rows.map((row) => Object.fromEntries(selectedColumns.filter((c) => c in row).map((c) => [c, row[c]]))),
+              null,
+              2,
+            )}
+          />
+          <Action.CopyToClipboard
+            title="Copy Path"
+            content={path}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+          {hiddenCount > 0 && (
+            <Action title="Show All Columns" icon={Icon.Eye} onAction={() => setSelectedColumns(columns)} />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,115 @@
+import { Form } from "@raycast/api";
+import { getPrimaryType, resolveSchema } from "../lib/openapi-parser";
+import {
+  describeNumberRange,
+  FieldKind,
+  formatDateValue,
+  getFieldKind,
+  isParameterRequired,
+  parseDateValue,
+} from "../lib/schema-fields";
+import { Parameter } from "../types/openapi";
+
+export interface ParameterFieldProps {
+  id: string;
+  param: Parameter;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Form input for a path, query or header parameter, chosen from its schema
+ */
+export function ParameterField({ id, param, value, error, onChange }: ParameterFieldProps) {
+  const required = isParameterRequired(param);
+  const schema = resolveSchema(param.schema || {});
+  const kind = getFieldKind(schema);
+  const title = `${param.name}${required ? " *" : ""}`;
+  const info = [param.description || schema.description, required ? "Required" : "Optional"]
+    .filter(Boolean)
+    .join("\n\n");
+
+  switch (kind) {
+    case "enum":
+      return (
+        <Form.Dropdown id={id} title={title} info={info} value={value} error={error} onChange={onChange}>
+          <Form.Dropdown.Item value="" title={required ? "Select a value" : "Not set"} />
+          {schema.enum!.map((option) => (
+            <Form.Dropdown.Item key={String(option)} value={String(option)} title={String(option)} />
+          ))}
+        </Form.Dropdown>
+      );
+    case "boolean":
+      // Optional booleans can be left unset, a checkbox would always send true or false
+      if (!required) {
+        return (
+          <Form.Dropdown id={id} title={title} info={info} value={value} error={error} onChange={onChange}>
+            <Form.Dropdown.Item value="" title="Not set" />
+            <Form.Dropdown.Item value="true" title="true" />
+            <Form.Dropdown.Item value="false" title="false" />
+          </Form.Dropdown>
+        );
+      }
+      return (
+        <Form.Checkbox
+          id={id}
+          title={title}
+          label={param.name}
+          info={info}
+          value={value === "true"}
+          error={error}
+          onChange={(checked) => onChange(String(checked))}
+        />
+      );
+    case "date":
+    case "date-time":
+      return (
+        <Form.DatePicker
+          id={id}
+          title={title}
+          info={info}
+          type={kind === "date" ? Form.DatePicker.Type.Date : Form.DatePicker.Type.DateTime}
+          value={parseDateValue(value)}
+          error={error}
+          onChange={(date) => onChange(date ? formatDateValue(date, kind) : "")}
+        />
+      );
+    case "number": {
+      const range = describeNumberRange(schema);
+      return (
+        <Form.TextField
+          id={id}
+          title={title}
+          placeholder={range ? `${getPrimaryType(schema)} ${range}` : getPrimaryType(schema)}
+          info={info}
+          value={value}
+          error={error}
+          onChange={onChange}
+        />
+      );
+    }
+    default:
+      return (
+        <Form.TextField
+          id={id}
+          title={title}
+          placeholder={getTextPlaceholder(param, kind)}
+          info={info}
+          value={value}
+          error={error}
+          onChange={onChange}
+        />
+      );
+  }
+}
+
+function getTextPlaceholder(param: Parameter, kind: FieldKind): string {
+  if (kind === "array") {
+    return "Comma-separated values";
+  }
+  if (kind === "object" || (kind === "json" && getPrimaryType(resolveSchema(param.schema || {})) === "object")) {
+    return "JSON object or key=value pairs";
+  }
+  return param.description || `Enter ${param.name}`;
+}
@@ -1,33 +1,151 @@
-import { Action, ActionPanel, Clipboard, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
-import { useState } from "react";
-import { CurlOptions, generateCurl } from "../lib/curl-generator";
-import { getHeaderParams, getPathParams, getQueryParams, getRequestBodyContentType } from "../lib/openapi-parser";
-import { addRequestToHistory, maskSensitiveHeaders } from "../lib/storage";
-import { validateJson } from "../lib/validation";
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useMemo, useState } from "react";
+import { CurlOptions } from "../lib/curl-generator";
+import { buildSnippetRequest, SnippetRequest } from "../lib/snippet-request";
+import { generateExampleBody } from "../lib/example-generator";
+import {
+  getHeaderParams,
+  getPathParams,
+  getQueryParams,
+  getRequestBodyContentType,
+  getRequestBodySchema,
+  getSelectionBaseUrl,
+  getServerSelection,
+} from "../lib/openapi-parser";
+import { clearSessionVariables, saveRequest, updateSpec } from "../lib/storage";
+import { applyExtractionRules, getEndpointExtractionRules, saveEndpointExtractionRules } from "../lib/extraction";
+import { useRequestVariables } from "../hooks";
+import { FormValues, getFormBodyFields, toFormParameter } from "../lib/form-body";
+import { getDefaultParamValues } from "../lib/schema-fields";
+import { describeAuth } from "../lib/auth";
+import { getFreshTokenForSpec } from "../lib/oauth";
+import { executeEndpointRequest } from "../lib/request-executor";
+import { createEventStream } from "../lib/event-stream";
+import { formatMetricsSummary } from "../lib/format";
+import {
+  formatHeaderLines,
+  formatQueryLines,
+  parseHeaderLines,
+  parseQueryLines,
+  RequestPrefill,
+} from "../lib/request-prefill";
+import { substituteValues, substituteVariables } from "../lib/environments";
+import { validateJson, validateParameter } from "../lib/validation";
 import { getErrorMessage } from "../lib/toast-utils";
-import { ParsedEndpoint } from "../types/openapi";
+import {
+  Environment,
+  ExtractionRule,
+  ParsedEndpoint,
+  SavedRequest,
+  Server,
+  ServerSelection,
+  StoredSpec,
+} from "../types/openapi";
+import { BodyFieldActions, BodyFields, hasBodyFields } from "./BodyEditor";
+import { ParameterField } from "./ParameterField";
 import { ResponseDetail } from "./ResponseDetail";
+import { EventStreamDetail } from "./EventStreamDetail";
+import { ServerFields } from "./ServerForm";
+import { SnippetActions } from "./SnippetActions";
+import { SaveRequestForm, SaveRequestFormProps } from "./SaveRequestForm";
+import { ExtractionRulesForm } from "./ExtractionRulesForm";
 
 type AuthSource = "stored" | "custom";
+type BodyMode = "json" | "fields";
 
 export interface RequestFormProps {
   endpoint: ParsedEndpoint;
   curlOptions: CurlOptions;
   specId: string;
   specName: string;
+  /** Servers declared by the spec, enables the server picker */
+  servers?: Server[];
+  /** Server currently selected for the spec */
+  serverSelection?: ServerSelection;
+  /** Called with the updated spec when the request used a different server */
+  onServerChange?: (spec: StoredSpec) => void;
+  /** Initial values, e.g. from an imported cURL command. Also shows fields for extra headers and query parameters. */
+  prefill?: RequestPrefill;
+  /** Active environment, for its token. Its variables come in through curlOptions and are reloaded with extracted ones. */
+  environment?: Environment;
+  /** Saved request the form was opened from, saving updates it */
+  savedRequest?: SavedRequest;
+  /** Called after the request is saved */
+  onSaveRequest?: (saved: SavedRequest) => void;
 }
 
-export function RequestForm({ endpoint, curlOptions, specId, specName }: RequestFormProps) {
+export function RequestForm({
+  endpoint,
+  curlOptions,
+  specId,
+  specName,
+  servers: specServers = [],
+  serverSelection: initialServerSelection,
+  onServerChange,
+  prefill,
+  environment,
+  savedRequest: initialSavedRequest,
+  onSaveRequest,
+}: RequestFormProps) {
   const { push } = useNavigation();
-  const [paramValues, setParamValues] = useState<Record<string, string>>({});
-  const [bodyJson, setBodyJson] = useState<string>("");
+  const [paramValues, setParamValues] = useState<Record<string, string>>(() => ({
+    ...getDefaultParamValues(endpoint.parameters),
+    ...prefill?.paramValues,
+  }));
+  // Errors show once a field is edited, or for every field after a blocked execute or copy
+  const [touchedParams, setTouchedParams] = useState<Set<string>>(() => new Set());
+  const [showAllErrors, setShowAllErrors] = useState(false);
+  const [formValues, setFormValues] = useState<FormValues>(() => ({
+    ...getDefaultParamValues(
+      getFormBodyFields(endpoint)
+        .filter((field) => field.kind === "text")
+        .map(toFormParameter),
+    ),
+    ...prefill?.formValues,
+  }));
+  // Prefill the body with an example generated from the schema
+  const [bodyJson, setBodyJson] = useState<string>(() =>
+    prefill?.bodyJson !== undefined
+      ? prefill.bodyJson
+      : endpoint.requestBody && ["POST", "PUT", "PATCH"].includes(endpoint.method)
+        ? generateExampleBody(endpoint)
+        : "",
+  );
+  const [extraHeaders, setExtraHeaders] = useState<string>(() => formatHeaderLines(prefill?.extraHeaders || {}));
+  const [extraQuery, setExtraQuery] = useState<string>(() => formatQueryLines(prefill?.extraQuery || []));
   const [bodyError, setBodyError] = useState<string | undefined>();
+  const [bodyMode, setBodyMode] = useState<BodyMode>("json");
   const [isLoading, setIsLoading] = useState(false);
-  const [authSource, setAuthSource] = useState<AuthSource>(curlOptions.authToken ? "stored" : "custom");
-  const [customToken, setCustomToken] = useState<string>("");
+  const [authSource, setAuthSource] = useState<AuthSource>(
+    curlOptions.authToken && !prefill?.customToken ? "stored" : "custom",
+  );
+  const [customToken, setCustomToken] = useState<string>(prefill?.customToken || "");
+  const [savedRequest, setSavedRequest] = useState<SavedRequest | undefined>(initialSavedRequest);
+
+  // Path and operation servers take precedence; picking one of those only applies to this request.
+  // An environment's base URL replaces them all.
+  const servers = environment?.baseUrl ? [] : endpoint.servers || specServers;
+  const [serverSelection, setServerSelection] = useState<ServerSelection | undefined>(
+    endpoint.servers ? undefined : initialServerSelection,
+  );
 
   const activeToken = authSource === "stored" ? curlOptions.authToken : customToken;
 
+  // Only offer the server picker when there is something to pick
+  const showServerFields = servers.length > 1 || servers.some((s) => Object.keys(s.variables || {}).length > 0);
+  const baseUrl = getSelectionBaseUrl(servers, serverSelection) || curlOptions.baseUrl;
+
+  // {{variables}} are filled in from the active environment and earlier responses before validating and sending
+  const { spec: storedSpec, variables, refresh: refreshVariables } = useRequestVariables(specId, curlOptions.variables);
+  const extractionRules = [
+    ...(storedSpec ? getEndpointExtractionRules(storedSpec, endpoint) : []),
+    ...(savedRequest?.extractionRules || []),
+  ];
+  const resolvedParams = useMemo(() => substituteValues(paramValues, variables), [paramValues, variables]);
+  const resolvedFormValues = useMemo(() => substituteValues(formValues, variables), [formValues, variables]);
+
+  const variableNames = Object.keys(variables);
+
   const pathParams = getPathParams(endpoint);
   const queryParams = getQueryParams(endpoint);
   const headerParams = getHeaderParams(endpoint);
@@ -35,154 +153,226 @@ export function RequestForm({ endpoint, curlOptions, specId, specName }: Request
   const hasBody = endpoint.requestBody && ["POST", "PUT", "PATCH"].includes(endpoint.method);
   const allParams = [...pathParams, ...queryParams, ...headerParams];
 
+  // Form fields are offered for JSON object bodies, the raw JSON stays the source of truth
+  const bodySchema = getRequestBodySchema(endpoint);
+  const canUseBodyFields =
+    hasBody && !!bodySchema && hasBodyFields(bodySchema) && !!getRequestBodyContentType(endpoint)?.includes("json");
+  const bodyObject = useMemo(() => parseBodyObject(bodyJson), [bodyJson]);
+
+  // multipart/form-data and x-www-form-urlencoded bodies are filled in field by field
+  const formFields = useMemo(() => (hasBody ? getFormBodyFields(endpoint) : []), [endpoint]);
+  const isFormBody = formFields.length > 0;
+
+  const paramErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    for (const param of allParams) {
+      const error = validateParameter(param, resolvedParams[param.name]);
+      if (error) {
+        errors[param.name] = error;
+      }
+    }
+    return errors;
+  }, [endpoint, resolvedParams]);
+
+  const formErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    for (const field of formFields) {
+      const value = resolvedFormValues[field.name];
+      const error =
+        field.kind === "text"
+          ? validateParameter(toFormParameter(field), value as string | undefined)
+          : field.required && !value?.length
+            ? `${field.name} is required`
+            : undefined;
+      if (error) {
+        errors[field.name] = error;
+      }
+    }
+    return errors;
+  }, [formFields, resolvedFormValues]);
+
   function updateParam(name: string, value: string) {
     setParamValues((prev) => ({ ...prev, [name]: value }));
+    setTouchedParams((prev) => new Set(prev).add(name));
   }
 
-  function getEffectiveBody(): string {
-    return bodyJson.trim();
+  function getParamError(name: string): string | undefined {
+    return showAllErrors || touchedParams.has(name) ? paramErrors[name] : undefined;
   }
 
-  function handleBodyChange(value: string) {
-    setBodyJson(value);
-    setBodyError(validateJson(value));
+  function updateFormValue(name: string, value: string | string[]) {
+    setFormValues((prev) => ({ ...prev, [name]: value }));
+    setTouchedParams((prev) => new Set(prev).add(`form_${name}`));
   }
 
-  function getCurlWithValues(): string {
-    return generateCurl(endpoint, {
-      ...curlOptions,
-      authToken: activeToken,
-      paramValues,
-      bodyJson: getEffectiveBody() || undefined,
-    });
+  function getFormError(name: string): string | undefined {
+    return showAllErrors || touchedParams.has(`form_${name}`) ? formErrors[name] : undefined;
   }
 
-  function buildRequestUrl(): string {
-    let url = `${curlOptions.baseUrl}${endpoint.path}`;
-
-    // Replace path parameters
-    for (const param of pathParams) {
-      const value = paramValues[param.name];
-      if (value) {
-        url = url.replace(`{${param.name}}`, encodeURIComponent(value));
-      }
+  /**
+   * Check parameters and body before sending or copying, surfacing inline errors
+   */
+  async function validateRequest(): Promise<boolean> {
+    const invalidParams = allParams.filter((param) => paramErrors[param.name]);
+    if (invalidParams.length > 0) {
+      setShowAllErrors(true);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid parameters",
+        message: `Please fix ${invalidParams.map((param) => param.name).join(", ")}`,
+      });
+      return false;
     }
 
-    // Add query parameters
-    const queryParts: string[] = [];
-    for (const param of queryParams) {
-      const value = paramValues[param.name];
-      if (value) {
-        queryParts.push(`${param.name}=${encodeURIComponent(value)}`);
-      }
-    }
-    if (queryParts.length > 0) {
-      url += `?${queryParts.join("&")}`;
+    const invalidFields = formFields.filter((field) => formErrors[field.name]);
+    if (invalidFields.length > 0) {
+      setShowAllErrors(true);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid form fields",
+        message: `Please fix ${invalidFields.map((field) => field.name).join(", ")}`,
+      });
+      return false;
     }
 
-    return url;
-  }
-
-  async function executeRequest() {
     const effectiveBody = getEffectiveBody();
-
-    // Validate body JSON if provided
-    if (effectiveBody && validateJson(effectiveBody)) {
+    if (hasBody && !isFormBody && effectiveBody && validateJson(effectiveBody)) {
+      setBodyError(validateJson(effectiveBody));
       await showToast({
         style: Toast.Style.Failure,
         title: "Invalid JSON",
         message: "Please fix the request body JSON",
       });
-      return;
+      return false;
     }
 
-    setIsLoading(true);
+    return true;
+  }
 
-    try {
-      const url = buildRequestUrl();
-      const headers: Record<string, string> = {};
-
-      // Add auth header
-      if (activeToken) {
-        switch (curlOptions.authType) {
-          case "bearer":
-            headers["Authorization"] = `Bearer ${activeToken}`;
-            break;
-          case "api-key":
-            headers[curlOptions.authHeader || "X-API-Key"] = activeToken;
-            break;
-          case "basic":
-            headers["Authorization"] = `Basic ${activeToken}`;
-            break;
-        }
-      }
+  function getEffectiveBody(): string {
+    return substituteVariables(bodyJson.trim(), variables);
+  }
 
-      // Add custom header parameters
-      for (const param of headerParams) {
-        const value = paramValues[param.name];
-        if (value) {
-          headers[param.name] = value;
-        }
-      }
+  function handleBodyChange(value: string) {
+    setBodyJson(value);
+    setBodyError(validateJson(substituteVariables(value, variables)));
+  }
 
-      // Add Content-Type for body requests (use spec-defined content type or default to application/json)
-      if (hasBody) {
-        const contentType = getRequestBodyContentType(endpoint) || "application/json";
-        headers["Content-Type"] = contentType;
-      }
+  function handleBodyFieldsChange(value: Record<string, unknown>) {
+    setBodyJson(JSON.stringify(value, null, 2));
+    setBodyError(undefined);
+  }
 
-      const fetchOptions: RequestInit = {
-        method: endpoint.method,
-        headers,
-      };
+  function handleBodyPropertyChange(name: string, value: unknown) {
+    setBodyJson((prev) => JSON.stringify({ ...parseBodyObject(prev), [name]: value }, null, 2));
+    setBodyError(undefined);
+  }
 
-      if (hasBody && effectiveBody) {
-        fetchOptions.body = effectiveBody;
-      }
+  async function saveServerSelection() {
+    if (!serverSelection || endpoint.servers) return;
+    if (JSON.stringify(serverSelection) === JSON.stringify(initialServerSelection)) return;
 
-      const res = await fetch(url, fetchOptions);
-      const contentType = res.headers.get("content-type") || "";
+    const updated = await updateSpec(specId, { server: serverSelection, baseUrl });
+    if (updated) {
+      onServerChange?.(updated);
+    }
+  }
 
-      let responseText: string;
-      if (contentType.includes("application/json")) {
-        const json = await res.json();
-        responseText = JSON.stringify(json, null, 2);
-      } else {
-        responseText = await res.text();
-      }
+  // The form's current values, {{variables}} are filled in when the request is built
+  function getRequestOptions(): CurlOptions {
+    return {
+      ...curlOptions,
+      baseUrl,
+      authToken: activeToken,
+      paramValues,
+      bodyJson: bodyJson.trim() || undefined,
+      formValues: isFormBody ? formValues : undefined,
+      extraHeaders: parseHeaderLines(extraHeaders),
+      extraQuery: parseQueryLines(extraQuery),
+      variables,
+    };
+  }
 
-      // Save to request history (with masked headers)
-      await addRequestToHistory({
-        specId,
-        specName,
-        method: endpoint.method,
-        path: endpoint.path,
-        url,
-        headers: maskSensitiveHeaders(headers),
-        body: hasBody && effectiveBody ? effectiveBody : undefined,
-        timestamp: new Date().toISOString(),
-        response: {
-          status: res.status,
-          statusText: res.statusText,
-          body: responseText,
-          contentType,
+  function getSnippetRequestWithValues(): SnippetRequest {
+    return buildSnippetRequest(endpoint, getRequestOptions());
+  }
+
+  async function executeRequest() {
+    if (!(await validateRequest())) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await saveServerSelection();
+      // Stored OAuth tokens are refreshed first when they are about to expire
+      const token =
+        authSource === "stored" && activeToken
+          ? (await getFreshTokenForSpec(specId, environment?.tokenId)) || activeToken
+          : activeToken;
+      // Event streams open their own view as soon as the headers arrive
+      const stream = createEventStream(() =>
+        push(
+          <EventStreamDetail
+            stream={stream}
+            method={endpoint.method}
+            path={endpoint.path}
+            specName={specName}
+            snippetRequest={getSnippetRequestWithValues()}
+          />,
+        ),
+      );
+      const result = await executeEndpointRequest(
+        endpoint,
+        { ...getRequestOptions(), authToken: token },
+        {
+          specId,
+          specName,
         },
-      });
+        stream,
+      );
+
+      // Values for later requests, e.g. the id of a created resource
+      const { values: extracted, errors: extractionErrors } = await applyExtractionRules(
+        specId,
+        extractionRules,
+        result,
+      );
+      const extractedNames = Object.keys(extracted);
+      if (extractedNames.length > 0) {
+        await refreshVariables();
+      }
 
       await showToast({
-        style: res.ok ? Toast.Style.Success : Toast.Style.Failure,
-        title: `${res.status} ${res.statusText}`,
+        style: result.ok ? Toast.Style.Success : Toast.Style.Failure,
+        title: `${result.status} ${result.statusText}`,
+        message: [
+          formatMetricsSummary(result.metrics),
+          ...(result.events ? [`${result.events.length} events`] : []),
+          ...extractedNames.map((name) => `Extracted ${name}`),
+          ...Object.entries(extractionErrors).map(([name, message]) => `Couldn't extract ${name}: ${message}`),
+        ].join(" · "),
       });
 
+      if (result.events) {
+        return;
+      }
+
       push(
         <ResponseDetail
           method={endpoint.method}
           path={endpoint.path}
-          url={url}
-          status={res.status}
-          statusText={res.statusText}
-          responseBody={responseText}
-          contentType={contentType}
+          url={result.url}
+          status={result.status}
+          statusText={result.statusText}
+          responseBody={result.body}
+          contentType={result.contentType}
+          responseHeaders={result.headers}
+          metrics={result.metrics}
+          file={result.file}
+          snippetRequest={getSnippetRequestWithValues()}
+          extractedValues={extracted}
         />,
       );
     } catch (error) {
@@ -197,13 +387,52 @@ export function RequestForm({ endpoint, curlOptions, specId, specName }: Request
     }
   }
 
-  async function handleCopy() {
-    const curl = getCurlWithValues();
-    await Clipboard.copy(curl);
-    await showToast({
-      style: Toast.Style.Success,
-      title: "Copied to clipboard",
-    });
+  function handleSaveRequest(saved: SavedRequest) {
+    setSavedRequest(saved);
+    onSaveRequest?.(saved);
+  }
+
+  // The form's values as a request to save, the name and collection are picked when saving
+  function getSaveRequestValues(): SaveRequestFormProps["request"] {
+    return {
+      specId,
+      specName,
+      method: endpoint.method,
+      path: endpoint.path,
+      operationId: endpoint.operationId,
+      paramValues,
+      bodyJson: hasBody && !isFormBody ? bodyJson.trim() || undefined : undefined,
+      formValues: isFormBody ? formValues : undefined,
+      extraHeaders: parseHeaderLines(extraHeaders),
+      extraQuery: parseQueryLines(extraQuery),
+      customToken: authSource === "custom" ? customToken || undefined : undefined,
+      extractionRules: savedRequest?.extractionRules,
+    };
+  }
+
+  async function saveEndpointRules(rules: ExtractionRule[]) {
+    await saveEndpointExtractionRules(specId, endpoint, rules);
+    await refreshVariables();
+  }
+
+  async function saveSavedRequestRules(rules: ExtractionRule[]) {
+    if (!savedRequest) return;
+    const { id, name, collection } = savedRequest;
+    handleSaveRequest(await saveRequest({ ...getSaveRequestValues(), name, collection, extractionRules: rules }, id));
+  }
+
+  async function handleClearSessionVariables() {
+    await clearSessionVariables(specId);
+    await refreshVariables();
+    await showToast({ style: Toast.Style.Success, title: "Session variables cleared" });
+  }
+
+  async function getCopyRequest(): Promise<SnippetRequest | undefined> {
+    if (!(await validateRequest())) {
+      return undefined;
+    }
+    await saveServerSelection();
+    return getSnippetRequestWithValues();
   }
 
   return (
@@ -213,19 +442,89 @@ export function RequestForm({ endpoint, curlOptions, specId, specName }: Request
       actions={
         <ActionPanel>
           <Action title="Execute Request" onAction={executeRequest} icon={Icon.Play} />
-          <Action
-            title="Copy as Curl"
-            onAction={handleCopy}
-            icon={Icon.Clipboard}
-            shortcut={{ modifiers: ["cmd"], key: "c" }}
+          <SnippetActions getRequest={getCopyRequest} shortcut={{ modifiers: ["cmd"], key: "c" }} />
+          <Action.Push
+            title={savedRequest ? "Update Saved Request" : "Save Request"}
+            icon={Icon.SaveDocument}
+            shortcut={{ modifiers: ["cmd"], key: "s" }}
+            target={
+              <SaveRequestForm request={getSaveRequestValues()} existing={savedRequest} onSave={handleSaveRequest} />
+            }
           />
+          {variableNames.length > 0 && allParams.length > 0 && (
+            <ActionPanel.Submenu
+              title="Use Variable"
+              icon={Icon.Code}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+            >
+              {allParams.map((param) => (
+                <ActionPanel.Submenu key={`${param.in}-${param.name}`} title={`${param.name} (${param.in})`}>
+                  {variableNames.map((name) => (
+                    <Action key={name} title={`{{${name}}}`} onAction={() => updateParam(param.name, `{{${name}}}`)} />
+                  ))}
+                </ActionPanel.Submenu>
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          <Action.Push
+            title="Edit Extraction Rules"
+            icon={Icon.Download}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+            target={
+              <ExtractionRulesForm
+                title={`${endpoint.method} ${endpoint.path}`}
+                rules={storedSpec ? getEndpointExtractionRules(storedSpec, endpoint) : []}
+                onSave={saveEndpointRules}
+              />
+            }
+          />
+          {savedRequest && (
+            <Action.Push
+              title="Edit Saved Request Extraction Rules"
+              icon={Icon.Download}
+              target={
+                <ExtractionRulesForm
+                  title={savedRequest.name}
+                  rules={savedRequest.extractionRules || []}
+                  onSave={saveSavedRequestRules}
+                />
+              }
+            />
+          )}
+          <Action title="Clear Session Variables" icon={Icon.Eraser} onAction={handleClearSessionVariables} />
+          {canUseBodyFields && bodyMode === "fields" && bodyObject && (
+            <BodyFieldActions schema={bodySchema} value={bodyObject} onPropertyChange={handleBodyPropertyChange} />
+          )}
         </ActionPanel>
       }
     >
       <Form.Description title="Endpoint" text={`${endpoint.method} ${endpoint.path}`} />
+      {environment && (
+        <Form.Description
+          title="Environment"
+          text={`${environment.name} — {{variables}} in parameters, the body and headers are filled in`}
+        />
+      )}
+      {variableNames.length > 0 && (
+        <Form.Description
+          title="Variables"
+          text={variableNames.map((name) => `{{${name}}} = ${variables[name]}`).join("\n")}
+        />
+      )}
+
+      {showServerFields && (
+        <>
+          <Form.Separator />
+          <ServerFields
+            servers={servers}
+            selection={getServerSelection(servers, serverSelection)!}
+            onChange={setServerSelection}
+          />
+        </>
+      )}
 
       <Form.Separator />
-      <Form.Description title="Authentication" text="Choose authentication method" />
+      <Form.Description title="Authentication" text={`Sent as ${describeAuth(curlOptions)}`} />
       <Form.Dropdown
         id="authSource"
         title="Token Source"
@@ -255,12 +554,12 @@ export function RequestForm({ endpoint, curlOptions, specId, specName }: Request
           <Form.Separator />
           <Form.Description title="Path Parameters" text="Required parameters in the URL path" />
           {pathParams.map((param) => (
-            <Form.TextField
+            <ParameterField
               key={param.name}
               id={`path_${param.name}`}
-              title={param.name}
-              placeholder={param.description || `Enter ${param.name}`}
-              info={param.required ? "Required" : undefined}
+              param={param}
+              value={paramValues[param.name] || ""}
+              error={getParamError(param.name)}
               onChange={(value) => updateParam(param.name, value)}
             />
           ))}
@@ -272,12 +571,12 @@ export function RequestForm({ endpoint, curlOptions, specId, specName }: Request
           <Form.Separator />
           <Form.Description title="Query Parameters" text="Parameters appended to the URL" />
           {queryParams.map((param) => (
-            <Form.TextField
+            <ParameterField
               key={param.name}
               id={`query_${param.name}`}
-              title={`${param.name}${param.required ? " *" : ""}`}
-              placeholder={param.description || `Enter ${param.name}`}
-              info={param.required ? "Required" : "Optional"}
+              param={param}
+              value={paramValues[param.name] || ""}
+              error={getParamError(param.name)}
               onChange={(value) => updateParam(param.name, value)}
             />
           ))}
@@ -289,30 +588,107 @@ export function RequestForm({ endpoint, curlOptions, specId, specName }: Request
           <Form.Separator />
           <Form.Description title="Header Parameters" text="Custom headers for the request" />
           {headerParams.map((param) => (
-            <Form.TextField
+            <ParameterField
               key={param.name}
               id={`header_${param.name}`}
-              title={`${param.name}${param.required ? " *" : ""}`}
-              placeholder={param.description || `Enter ${param.name}`}
-              info={param.required ? "Required" : "Optional"}
+              param={param}
+              value={paramValues[param.name] || ""}
+              error={getParamError(param.name)}
               onChange={(value) => updateParam(param.name, value)}
             />
           ))}
         </>
       )}
 
-      {hasBody && (
+      {prefill && (
         <>
           <Form.Separator />
-          <Form.Description title="Request Body" text="JSON body for the request" />
+          <Form.Description
+            title="Additional Parameters"
+            text="Headers and query parameters the spec doesn't declare"
+          />
           <Form.TextArea
-            id="body"
-            title="Body (JSON)"
-            placeholder='{"key": "value"}'
-            error={bodyError}
-            onChange={handleBodyChange}
-            info="Enter valid JSON for the request body"
+            id="extraHeaders"
+            title="Headers"
+            placeholder="X-Request-Id: 123"
+            info="One header per line, as Name: value"
+            value={extraHeaders}
+            onChange={setExtraHeaders}
           />
+          <Form.TextArea
+            id="extraQuery"
+            title="Query Parameters"
+            placeholder="page=2"
+            info="One parameter per line, as name=value"
+            value={extraQuery}
+            onChange={setExtraQuery}
+          />
+        </>
+      )}
+
+      {isFormBody && (
+        <>
+          <Form.Separator />
+          <Form.Description title="Request Body" text={`Form fields sent as ${getRequestBodyContentType(endpoint)}`} />
+          {formFields.map((field) =>
+            field.kind === "text" ? (
+              <ParameterField
+                key={field.name}
+                id={`form_${field.name}`}
+                param={toFormParameter(field)}
+                value={(formValues[field.name] as string | undefined) || ""}
+                error={getFormError(field.name)}
+                onChange={(value) => updateFormValue(field.name, value)}
+              />
+            ) : (
+              <Form.FilePicker
+                key={field.name}
+                id={`form_${field.name}`}
+                title={`${field.name}${field.required ? " *" : ""}`}
+                info={field.schema.description}
+                allowMultipleSelection={field.kind === "files"}
+                canChooseDirectories={false}
+                value={(formValues[field.name] as string[] | undefined) || []}
+                error={getFormError(field.name)}
+                onChange={(paths) => updateFormValue(field.name, paths)}
+              />
+            ),
+          )}
+        </>
+      )}
+
+      {hasBody && !isFormBody && (
+        <>
+          <Form.Separator />
+          <Form.Description title="Request Body" text="JSON body for the request" />
+          {canUseBodyFields && (
+            <Form.Dropdown
+              id="bodyMode"
+              title="Body Editor"
+              value={bodyMode}
+              onChange={(value) => setBodyMode(value as BodyMode)}
+            >
+              <Form.Dropdown.Item value="json" title="Raw JSON" icon={Icon.Code} />
+              <Form.Dropdown.Item value="fields" title="Form Fields" icon={Icon.List} />
+            </Form.Dropdown>
+          )}
+          {canUseBodyFields && bodyMode === "fields" ? (
+            bodyObject ? (
+              <BodyFields schema={bodySchema} value={bodyObject} onChange={handleBodyFieldsChange} />
+            ) : (
+              <Form.Description title="Body" text="The body is not a JSON object. Switch to Raw JSON to fix it." />
+            )
+          ) : (
+            <Form.TextArea
+              id="body"
+              title="Body (JSON)"
+              placeholder='{"key": "value"}'
+              value={bodyJson}
+              error={bodyError}
+              onChange={handleBodyChange}
+              info="Enter valid JSON for the request body"
+            />
+          )}
         </>
       )}
 
@@ -322,3 +698,15 @@ export function RequestForm({ endpoint, curlOptions, specId, specName }: Request
     </Form>
   );
 }
+
+/**
+ * Parse the raw body for the form fields, undefined unless it is a JSON object
+ */
+function parseBodyObject(json: string): Record<string, unknown> | undefined {
+  try {
+    const value = json.trim() ? JSON.parse(json) : {};
+    return typeof value === "object" && value !== null && !Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,4 +1,17 @@
-import { Action, ActionPanel, Color, Detail } from "@raycast/api";
+import { Action, ActionPanel, Color, Detail, Icon } from "@raycast/api";
+import { useMemo } from "react";
+import { existsSync } from "fs";
+import { pathToFileURL } from "url";
+import { SnippetRequest } from "../lib/snippet-request";
+import { formatBytes, formatDuration } from "../lib/format";
+import { isImageContentType } from "../lib/response-files";
+import { ResponseFile, ResponseMetrics } from "../types/openapi";
+import { SnippetActions } from "./SnippetActions";
+import { JsonExplorer } from "./JsonExplorer";
+import { SaveResponseFileForm } from "./SaveResponseFileForm";
+
+/** Characters of the response shown as markdown, larger bodies are slow to render */
+const MAX_MARKDOWN_BODY_LENGTH = 50000;
 
 export interface ResponseDetailProps {
   method: string;
@@ -12,12 +25,20 @@ export interface ResponseDetailProps {
   requestBody?: string;
   /** Optional headers to show in the detail view */
   headers?: Record<string, string>;
+  /** Optional response headers, missing on older history entries */
+  responseHeaders?: Record<string, string>;
+  /** Optional timing, size and redirects */
+  metrics?: ResponseMetrics;
+  /** Where a binary body was saved */
+  file?: ResponseFile;
   /** Optional spec name */
   specName?: string;
   /** Optional timestamp */
   timestamp?: string;
-  /** Optional curl command for copy action */
-  curlCommand?: string;
+  /** Optional request for the "Copy as" actions */
+  snippetRequest?: SnippetRequest;
+  /** Variables the endpoint's extraction rules pulled out of the response */
+  extractedValues?: Record<string, string>;
 }
 
 export function ResponseDetail({
@@ -30,18 +51,28 @@ export function ResponseDetail({
   contentType,
   requestBody,
   headers,
+  responseHeaders,
+  metrics,
+  file,
   specName,
   timestamp,
-  curlCommand,
+  snippetRequest,
+  extractedValues = {},
 }: ResponseDetailProps) {
   const isSuccess = status >= 200 && status < 300;
   const isJson = contentType.includes("application/json") || contentType.includes("json");
 
-  const headersText = headers
-    ? Object.entries(headers)
-        .map(([key, value]) => `${key}: ${value}`)
-        .join("\n")
-    : null;
+  const json = useMemo(() => {
+    if (!isJson) return undefined;
+    try {
+      return JSON.parse(responseBody) as unknown;
+    } catch {
+      return undefined;
+    }
+  }, [responseBody, isJson]);
+
+  const headersText = headers ? formatHeaders(headers) : null;
+  const responseHeadersText = responseHeaders ? formatHeaders(responseHeaders) : null;
 
   const markdownParts: string[] = [];
 
@@ -53,7 +84,33 @@ export function ResponseDetail({
     markdownParts.push(`## Request Body\n\`\`\`json\n${requestBody}\n\`\`\``);
   }
 
-  markdownParts.push(`## Response\n\`\`\`${isJson ? "json" : ""}\n${responseBody}\n\`\`\``);
+  if (responseHeadersText) {
+    markdownParts.push(`## Response Headers\n\`\`\`\n${responseHeadersText}\n\`\`\``);
+  }
+
+  // Temporary files don't outlive a restart, history may point at one that's gone
+  const fileExists = useMemo(() => !!file && existsSync(file.path), [file?.path]);
+
+  const isTruncated = responseBody.length > MAX_MARKDOWN_BODY_LENGTH;
+  const shownBody = isTruncated ? responseBody.slice(0, MAX_MARKDOWN_BODY_LENGTH) : responseBody;
+  if (file) {
+    const preview =
+      fileExists && isImageContentType(contentType) ? `![${file.name}](${pathToFileURL(file.path).href})` : "";
+    const description = fileExists
+      ? `\`${file.name}\` saved to \`${file.path}\``
+      : `\`${file.name}\` was saved to a temporary file that no longer exists.`;
+    markdownParts.push(`## Response\n${[preview, description].filter(Boolean).join("\n\n")}`);
+  } else {
+    markdownParts.push(`## Response\n\`\`\`${isJson ? "json" : ""}\n${shownBody}\n\`\`\``);
+  }
+  if (isTruncated && !file) {
+    markdownParts.push(
+      `Showing the first ${MAX_MARKDOWN_BODY_LENGTH} of ${responseBody.length} characters. ` +
+        (json !== undefined
+          ? "Explore the JSON with ⌘J, or copy the full response."
+          : "Copy the full response to see the rest."),
+    );
+  }
 
   const markdown = markdownParts.join("\n\n");
 
@@ -75,23 +132,70 @@ export function ResponseDetail({
           </Detail.Metadata.TagList>
           <Detail.Metadata.Label title="URL" text={url} />
           <Detail.Metadata.Label title="Content-Type" text={contentType || "unknown"} />
+          {metrics && (
+            <>
+              <Detail.Metadata.Label title="Duration" text={formatDuration(metrics.duration)} />
+              <Detail.Metadata.Label title="Time to First Byte" text={formatDuration(metrics.timeToFirstByte)} />
+              <Detail.Metadata.Label title="Size" text={formatBytes(metrics.size)} />
+              <Detail.Metadata.Label title="Redirects" text={String(metrics.redirects)} />
+            </>
+          )}
           {timestamp && <Detail.Metadata.Label title="Time" text={timestamp} />}
+          {Object.keys(extractedValues).length > 0 && (
+            <>
+              <Detail.Metadata.Separator />
+              <Detail.Metadata.Label title="Extracted Variables" text="" />
+              {Object.entries(extractedValues).map(([name, value]) => (
+                <Detail.Metadata.Label key={name} title={`  ${name}`} text={value} />
+              ))}
+            </>
+          )}
         </Detail.Metadata>
       }
       actions={
         <ActionPanel>
-          <Action.CopyToClipboard title="Copy Response" content={responseBody} />
-          {curlCommand && (
-            <Action.CopyToClipboard
-              title="Copy as Curl"
-              content={curlCommand}
-              shortcut={{ modifiers: ["cmd"], key: "c" }}
+          {file && fileExists && (
+            <>
+              <Action.Open title="Open File" target={file.path} icon={Icon.Document} />
+              <Action.ShowInFinder path={file.path} shortcut={{ modifiers: ["cmd", "shift"], key: "f" }} />
+              <Action.Push
+                title="Save Copy of File"
+                icon={Icon.SaveDocument}
+                shortcut={{ modifiers: ["cmd"], key: "s" }}
+                target={<SaveResponseFileForm file={file} />}
+              />
+              <Action.CopyToClipboard title="Copy File" content={{ file: file.path }} />
+            </>
+          )}
+          {!(file && fileExists) && <Action.CopyToClipboard title="Copy Response" content={responseBody} />}
+          {json !== undefined && (
+            <Action.Push
+              title="Explore JSON"
+              icon={Icon.Tree}
+              shortcut={{ modifiers: ["cmd"], key: "j" }}
+              target={<JsonExplorer value={json} />}
             />
           )}
+          {snippetRequest && (
+            <SnippetActions getRequest={() => snippetRequest} shortcut={{ modifiers: ["cmd"], key: "c" }} />
+          )}
           <Action.CopyToClipboard title="Copy URL" content={url} shortcut={{ modifiers: ["cmd"], key: "u" }} />
+          {responseHeadersText && (
+            <Action.CopyToClipboard
+              title="Copy Response Headers"
+              content={responseHeadersText}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
+            />
+          )}
           {requestBody && <Action.CopyToClipboard title="Copy Request Body" content={requestBody} />}
         </ActionPanel>
       }
     />
   );
 }
+
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join("\n");
+}
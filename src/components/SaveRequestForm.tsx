@@ -0,0 +1,134 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useForm, FormValidation } from "@raycast/utils";
+import { useRef } from "react";
+import { saveRequest } from "../lib/storage";
+import { getErrorMessage } from "../lib/toast-utils";
+import { useSavedRequests } from "../hooks";
+import { SavedRequest } from "../types/openapi";
+
+const NEW_COLLECTION = "__new__";
+
+interface FormValues {
+  name: string;
+  collection: string;
+  newCollection: string;
+}
+
+export interface SaveRequestFormProps {
+  /** The request to save, its name and collection come from the form */
+  request: Omit<SavedRequest, "id" | "name" | "collection" | "createdAt" | "updatedAt">;
+  /** Saved request to update, also offers saving a copy */
+  existing?: SavedRequest;
+  /** Called with the saved request */
+  onSave?: (saved: SavedRequest) => void;
+}
+
+export function SaveRequestForm({ request, existing, onSave }: SaveRequestFormProps) {
+  const { pop } = useNavigation();
+  const { collections, isLoading } = useSavedRequests();
+  // Set by the submit action, both go through the form's validation
+  const saveAsCopy = useRef(false);
+
+  async function save(values: FormValues, asCopy: boolean) {
+    try {
+      const collection =
+        values.collection === NEW_COLLECTION || collections.length === 0
+          ? values.newCollection.trim()
+          : values.collection;
+      const saved = await saveRequest(
+        {
+          specId: request.specId,
+          specName: request.specName,
+          method: request.method,
+          path: request.path,
+          operationId: request.operationId,
+          paramValues: request.paramValues,
+          bodyJson: request.bodyJson,
+          formValues: request.formValues,
+          extraHeaders: request.extraHeaders,
+          extraQuery: request.extraQuery,
+          customToken: request.customToken,
+          extractionRules: request.extractionRules,
+          name: values.name.trim(),
+          collection,
+        },
+        asCopy ? undefined : existing?.id,
+      );
+      await showToast({
+        style: Toast.Style.Success,
+        title: existing && !asCopy ? "Request updated" : "Request saved",
+        message: `${saved.name} in ${saved.collection}`,
+      });
+      onSave?.(saved);
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to save request",
+        message: getErrorMessage(error),
+      });
+    }
+  }
+
+  const { handleSubmit, itemProps, values } = useForm<FormValues>({
+    onSubmit: (values) => save(values, saveAsCopy.current),
+    initialValues: {
+      name: existing?.name || "",
+      collection: existing?.collection || NEW_COLLECTION,
+      newCollection: request.specName,
+    },
+    validation: {
+      name: FormValidation.Required,
+      newCollection: (value) => {
+        if (collections.length > 0 && values.collection !== NEW_COLLECTION) return undefined;
+        if (!value?.trim()) return "Collection is required";
+        return undefined;
+      },
+    },
+  });
+
+  const showNewCollection = collections.length === 0 || values.collection === NEW_COLLECTION;
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={existing ? `Edit ${existing.name}` : "Save Request"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={existing ? "Update Saved Request" : "Save Request"}
+            icon={Icon.SaveDocument}
+            onSubmit={(values: FormValues) => {
+              saveAsCopy.current = false;
+              return handleSubmit(values);
+            }}
+          />
+          {existing && (
+            <Action.SubmitForm
+              title="Save as New Request"
+              icon={Icon.PlusCircle}
+              onSubmit={(values: FormValues) => {
+                saveAsCopy.current = true;
+                return handleSubmit(values);
+              }}
+            />
+          )}
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Request" text={`${request.method} ${request.path} · ${request.specName}`} />
+      <Form.TextField {...itemProps.name} title="Name" placeholder="Create test customer" />
+      {collections.length > 0 && (
+        <Form.Dropdown {...itemProps.collection} title="Collection">
+          {collections.map((collection) => (
+            <Form.Dropdown.Item key={collection} value={collection} title={collection} icon={Icon.Folder} />
+          ))}
+          <Form.Dropdown.Item value={NEW_COLLECTION} title="New Collection…" icon={Icon.NewFolder} />
+        </Form.Dropdown>
+      )}
+      {showNewCollection && (
+        <Form.TextField {...itemProps.newCollection} title="New Collection" placeholder="Customers" />
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,69 @@
+import { Action, ActionPanel, Form, Icon, showInFinder, showToast, Toast, useNavigation } from "@raycast/api";
+import { useForm, FormValidation } from "@raycast/utils";
+import { homedir } from "os";
+import { join } from "path";
+import { copyResponseFile } from "../lib/response-files";
+import { getErrorMessage } from "../lib/toast-utils";
+import { ResponseFile } from "../types/openapi";
+
+interface FormValues {
+  directory: string[];
+  name: string;
+}
+
+export interface SaveResponseFileFormProps {
+  file: ResponseFile;
+}
+
+export function SaveResponseFileForm({ file }: SaveResponseFileFormProps) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps } = useForm<FormValues>({
+    async onSubmit(values) {
+      try {
+        const path = await copyResponseFile(file, values.directory[0], values.name.trim());
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Response saved",
+          message: path,
+          primaryAction: { title: "Show in Finder", onAction: () => showInFinder(path) },
+        });
+        pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to save response",
+          message: getErrorMessage(error),
+        });
+      }
+    },
+    initialValues: {
+      directory: [join(homedir(), "Downloads")],
+      name: file.name,
+    },
+    validation: {
+      directory: (value) => (value && value.length > 0 ? undefined : "Choose a folder"),
+      name: FormValidation.Required,
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle={`Save ${file.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save File" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        {...itemProps.directory}
+        title="Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+      />
+      <Form.TextField {...itemProps.name} title="File Name" />
+    </Form>
+  );
+}
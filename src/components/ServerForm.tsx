@@ -0,0 +1,130 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import {
+  getDefaultServerVariables,
+  getSelectionBaseUrl,
+  getServerSelection,
+  resolveServerUrl,
+} from "../lib/openapi-parser";
+import { updateSpec } from "../lib/storage";
+import { getErrorMessage } from "../lib/toast-utils";
+import { Server, ServerSelection, StoredSpec } from "../types/openapi";
+
+export interface ServerFieldsProps {
+  servers: Server[];
+  selection: ServerSelection;
+  onChange: (selection: ServerSelection) => void;
+}
+
+/**
+ * Server dropdown plus one field per server variable, for use inside a Form
+ */
+export function ServerFields({ servers, selection, onChange }: ServerFieldsProps) {
+  const server = servers.find((s) => s.url === selection.url) || servers[0];
+
+  function handleServerChange(url: string) {
+    const next = servers.find((s) => s.url === url);
+    if (next && next.url !== selection.url) {
+      onChange({ url: next.url, variables: getDefaultServerVariables(next) });
+    }
+  }
+
+  function handleVariableChange(name: string, value: string) {
+    onChange({ ...selection, variables: { ...selection.variables, [name]: value } });
+  }
+
+  return (
+    <>
+      {servers.length > 1 && (
+        <Form.Dropdown id="serverUrl" title="Server" value={server.url} onChange={handleServerChange}>
+          {servers.map((s) => (
+            <Form.Dropdown.Item key={s.url} value={s.url} title={s.description || s.url} icon={Icon.Globe} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {Object.entries(server.variables || {}).map(([name, variable]) =>
+        variable.enum && variable.enum.length > 0 ? (
+          <Form.Dropdown
+            key={`${server.url}-${name}`}
+            id={`server_${name}`}
+            title={name}
+            info={variable.description}
+            value={selection.variables[name] ?? variable.default}
+            onChange={(value) => handleVariableChange(name, value)}
+          >
+            {variable.enum.map((option) => (
+              <Form.Dropdown.Item key={option} value={option} title={option} />
+            ))}
+          </Form.Dropdown>
+        ) : (
+          <Form.TextField
+            key={`${server.url}-${name}`}
+            id={`server_${name}`}
+            title={name}
+            placeholder={variable.default}
+            info={variable.description}
+            value={selection.variables[name] ?? variable.default}
+            onChange={(value) => handleVariableChange(name, value)}
+          />
+        ),
+      )}
+      <Form.Description title="Base URL" text={resolveServerUrl(server, selection.variables)} />
+    </>
+  );
+}
+
+export interface ServerFormProps {
+  spec: StoredSpec;
+  servers: Server[];
+  /** Called with the updated spec after the selection is saved */
+  onSave: (spec: StoredSpec) => void;
+}
+
+export function ServerForm({ spec, servers, onSave }: ServerFormProps) {
+  const { pop } = useNavigation();
+  const [selection, setSelection] = useState<ServerSelection | undefined>(() =>
+    getServerSelection(servers, spec.server),
+  );
+
+  async function handleSubmit() {
+    if (!selection) return;
+
+    try {
+      // Relative servers can't be used on their own, keep the base URL the user entered
+      const baseUrl = getSelectionBaseUrl(servers, selection) || spec.baseUrl;
+      const updated = await updateSpec(spec.id, { server: selection, baseUrl });
+      if (updated) {
+        onSave(updated);
+      }
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Server updated",
+        message: baseUrl,
+      });
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update server",
+        message: getErrorMessage(error),
+      });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Server for ${spec.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Server" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      {selection ? (
+        <ServerFields servers={servers} selection={selection} onChange={setSelection} />
+      ) : (
+        <Form.Description title="No Servers" text="This spec does not declare any servers." />
+      )}
+    </Form>
+  );
+}
@@ -1,15 +1,114 @@
 import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
 import { useForm, FormValidation } from "@raycast/utils";
-import { saveToken, updateToken, StoredToken } from "../lib/secure-storage";
+import { useEffect, useState } from "react";
+import { DEFAULT_REDIRECT_URI, getSpecOAuthFlows, requestOAuthTokens, SpecOAuthFlow } from "../lib/oauth";
+import { AuthProfile, OAuthSettings, saveToken, updateToken, StoredToken } from "../lib/secure-storage";
+import { DEFAULT_HMAC_TEMPLATE, DEFAULT_HMAC_VALUE } from "../lib/signers";
+import { getCachedSpec } from "../lib/storage";
 import { getErrorMessage } from "../lib/toast-utils";
+import { validateUrl } from "../lib/validation";
 import { StoredSpec } from "../types/openapi";
 
 interface FormValues {
   tokenName: string;
   defaultSpecId: string;
+  authType: string;
+  authIn: string;
+  authName: string;
+  authPrefix: string;
+  username: string;
+  oauthFlow: string;
+  tokenUrl: string;
+  authorizationUrl: string;
+  redirectUri: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  awsAccessKeyId: string;
+  awsRegion: string;
+  awsService: string;
+  awsSessionToken: string;
+  hmacHeader: string;
+  hmacTemplate: string;
+  hmacValueTemplate: string;
+  hmacTimestampHeader: string;
+  hmacEncoding: string;
   token: string;
 }
 
+const TOKEN_FIELD_TITLES: Record<string, string> = {
+  basic: "Password",
+  digest: "Password",
+  "aws-sigv4": "Secret Access Key",
+  hmac: "Signing Key",
+};
+
+const OAUTH_FLOW_TITLES: Record<OAuthSettings["flow"], string> = {
+  clientCredentials: "Client Credentials",
+  authorizationCode: "Authorization Code with PKCE",
+};
+
+/**
+ * Build the auth profile from the form, keeping only the fields that apply to the type
+ */
+function getAuthProfile(values: FormValues): AuthProfile {
+  const prefix = values.authPrefix.trim() || undefined;
+
+  switch (values.authType) {
+    case "bearer":
+      return { type: "bearer", prefix };
+    case "api-key":
+      return {
+        type: "api-key",
+        in: values.authIn as AuthProfile["in"],
+        name: values.authName.trim(),
+        prefix,
+      };
+    case "basic":
+      return { type: "basic", username: values.username.trim() };
+    case "digest":
+      return { type: "digest", username: values.username.trim() };
+    case "aws-sigv4":
+      return {
+        type: "aws-sigv4",
+        aws: {
+          accessKeyId: values.awsAccessKeyId.trim(),
+          region: values.awsRegion.trim(),
+          service: values.awsService.trim(),
+          sessionToken: values.awsSessionToken || undefined,
+        },
+      };
+    case "hmac":
+      return {
+        type: "hmac",
+        hmac: {
+          header: values.hmacHeader.trim() || "Authorization",
+          template: values.hmacTemplate,
+          valueTemplate: values.hmacValueTemplate,
+          timestampHeader: values.hmacTimestampHeader.trim() || undefined,
+          encoding: values.hmacEncoding as "hex" | "base64",
+        },
+      };
+    case "oauth2": {
+      const flow = values.oauthFlow as OAuthSettings["flow"];
+      return {
+        type: "oauth2",
+        oauth: {
+          flow,
+          tokenUrl: values.tokenUrl.trim(),
+          authorizationUrl: flow === "authorizationCode" ? values.authorizationUrl.trim() : undefined,
+          redirectUri: flow === "authorizationCode" ? values.redirectUri.trim() || DEFAULT_REDIRECT_URI : undefined,
+          clientId: values.clientId.trim(),
+          clientSecret: values.clientSecret || undefined,
+          scopes: values.scopes.trim() || undefined,
+        },
+      };
+    }
+    default:
+      return { type: "auto" };
+  }
+}
+
 export interface SetTokenFormProps {
   /** Called after token is saved */
   onSave: () => void;
@@ -31,21 +130,44 @@ export function SetTokenForm({
   preselectedSpecId,
 }: SetTokenFormProps) {
   const { pop } = useNavigation();
+  const [specFlows, setSpecFlows] = useState<SpecOAuthFlow[]>([]);
+  const existingOAuth = existingToken?.auth?.oauth;
+  const existingAws = existingToken?.auth?.aws;
+  const existingHmac = existingToken?.auth?.hmac;
 
-  const { handleSubmit, itemProps } = useForm<FormValues>({
+  const { handleSubmit, itemProps, values, setValue } = useForm<FormValues>({
     async onSubmit(values) {
       try {
+        let token = values.token;
+        let auth = getAuthProfile(values);
+
+        // OAuth tokens come from running the flow rather than from the form
+        if (auth.oauth) {
+          await showToast({
+            style: Toast.Style.Animated,
+            title:
+              auth.oauth.flow === "authorizationCode"
+                ? "Waiting for authorization in the browser..."
+                : "Requesting access token...",
+          });
+          const tokens = await requestOAuthTokens(auth.oauth);
+          token = tokens.accessToken;
+          auth = { ...auth, oauth: { ...auth.oauth, refreshToken: tokens.refreshToken, expiresAt: tokens.expiresAt } };
+        }
+
         if (mode === "edit" && existingToken) {
           await updateToken(existingToken.id, {
             name: values.tokenName.trim(),
-            token: values.token,
+            token,
             defaultSpecId: values.defaultSpecId || undefined,
+            auth,
           });
         } else {
           await saveToken({
             name: values.tokenName.trim(),
-            token: values.token,
+            token,
             defaultSpecId: values.defaultSpecId || undefined,
+            auth,
           });
         }
 
@@ -72,14 +194,114 @@ export function SetTokenForm({
     initialValues: {
       tokenName: existingToken?.name || "",
       defaultSpecId: existingToken?.defaultSpecId || preselectedSpecId || "",
+      authType: existingToken?.auth?.type || "auto",
+      authIn: existingToken?.auth?.in || "header",
+      authName: existingToken?.auth?.name || "",
+      authPrefix: existingToken?.auth?.prefix || "",
+      username: existingToken?.auth?.username || "",
+      oauthFlow: existingOAuth?.flow || "clientCredentials",
+      tokenUrl: existingOAuth?.tokenUrl || "",
+      authorizationUrl: existingOAuth?.authorizationUrl || "",
+      redirectUri: existingOAuth?.redirectUri || DEFAULT_REDIRECT_URI,
+      clientId: existingOAuth?.clientId || "",
+      clientSecret: existingOAuth?.clientSecret || "",
+      scopes: existingOAuth?.scopes || "",
+      awsAccessKeyId: existingAws?.accessKeyId || "",
+      awsRegion: existingAws?.region || "us-east-1",
+      awsService: existingAws?.service || "execute-api",
+      awsSessionToken: existingAws?.sessionToken || "",
+      hmacHeader: existingHmac?.header || "Authorization",
+      hmacTemplate: existingHmac?.template || DEFAULT_HMAC_TEMPLATE,
+      hmacValueTemplate: existingHmac?.valueTemplate || DEFAULT_HMAC_VALUE,
+      hmacTimestampHeader: existingHmac?.timestampHeader || "",
+      hmacEncoding: existingHmac?.encoding || "hex",
       token: existingToken?.token || "",
     },
     validation: {
       tokenName: FormValidation.Required,
-      token: FormValidation.Required,
+      token: (value) => {
+        if (values.authType === "oauth2") return undefined;
+        if (!value) return "Token is required";
+        return undefined;
+      },
+      tokenUrl: (value) => {
+        if (values.authType !== "oauth2") return undefined;
+        return validateUrl(value?.trim());
+      },
+      authorizationUrl: (value) => {
+        if (values.authType !== "oauth2" || values.oauthFlow !== "authorizationCode") return undefined;
+        return validateUrl(value?.trim());
+      },
+      redirectUri: (value) => {
+        if (values.authType !== "oauth2" || values.oauthFlow !== "authorizationCode" || !value?.trim()) {
+          return undefined;
+        }
+        return validateUrl(value.trim());
+      },
+      clientId: (value) => {
+        if (values.authType !== "oauth2") return undefined;
+        if (!value?.trim()) return "Client ID is required";
+        return undefined;
+      },
+      authName: (value) => {
+        if (values.authType !== "api-key") return undefined;
+        if (!value?.trim()) return "Name is required for API keys";
+        return undefined;
+      },
+      username: (value) => {
+        if (values.authType !== "basic" && values.authType !== "digest") return undefined;
+        if (!value?.trim()) return "Username is required";
+        return undefined;
+      },
+      awsAccessKeyId: (value) => {
+        if (values.authType !== "aws-sigv4") return undefined;
+        if (!value?.trim()) return "Access key ID is required";
+        return undefined;
+      },
+      awsRegion: (value) => {
+        if (values.authType !== "aws-sigv4") return undefined;
+        if (!value?.trim()) return "Region is required";
+        return undefined;
+      },
+      awsService: (value) => {
+        if (values.authType !== "aws-sigv4") return undefined;
+        if (!value?.trim()) return "Service is required";
+        return undefined;
+      },
+      hmacTemplate: (value) => {
+        if (values.authType !== "hmac") return undefined;
+        if (!value?.trim()) return "Canonical string is required";
+        return undefined;
+      },
+      hmacValueTemplate: (value) => {
+        if (values.authType !== "hmac") return undefined;
+        if (!value?.includes("{signature}")) return "Must contain {signature}";
+        return undefined;
+      },
     },
   });
 
+  // Offer the OAuth flows declared by the linked spec for prefilling
+  useEffect(() => {
+    if (!values.defaultSpecId) {
+      setSpecFlows([]);
+      return;
+    }
+    getCachedSpec(values.defaultSpecId)
+      .then((spec) => setSpecFlows(spec ? getSpecOAuthFlows(spec) : []))
+      .catch(() => setSpecFlows([]));
+  }, [values.defaultSpecId]);
+
+  function applySpecFlow(index: string) {
+    const flow = specFlows[Number(index)];
+    if (!index || !flow) return;
+
+    setValue("oauthFlow", flow.flow);
+    setValue("tokenUrl", flow.tokenUrl);
+    setValue("authorizationUrl", flow.authorizationUrl || "");
+    setValue("scopes", Object.keys(flow.scopes).join(" "));
+  }
+
   return (
     <Form
       navigationTitle={mode === "new" ? "Add New Token" : "Edit Token"}
@@ -105,7 +327,163 @@ export function SetTokenForm({
           <Form.Dropdown.Item key={spec.id} value={spec.id} title={spec.name} icon={Icon.Document} />
         ))}
       </Form.Dropdown>
-      <Form.PasswordField {...itemProps.token} title="API Token" placeholder="Enter your API token" />
+      <Form.Separator />
+      <Form.Dropdown
+        {...itemProps.authType}
+        title="Auth Type"
+        info="How the token is sent. Auto uses the security scheme declared by the spec."
+      >
+        <Form.Dropdown.Item value="auto" title="Auto (from Spec)" icon={Icon.Wand} />
+        <Form.Dropdown.Item value="bearer" title="Bearer Token" icon={Icon.Key} />
+        <Form.Dropdown.Item value="api-key" title="API Key" icon={Icon.Lock} />
+        <Form.Dropdown.Item value="basic" title="Basic Auth" icon={Icon.Person} />
+        <Form.Dropdown.Item value="oauth2" title="OAuth 2.0" icon={Icon.Globe} />
+        <Form.Dropdown.Item value="digest" title="Digest Auth" icon={Icon.Person} />
+        <Form.Dropdown.Item value="aws-sigv4" title="AWS Signature V4" icon={Icon.Cloud} />
+        <Form.Dropdown.Item value="hmac" title="HMAC-SHA256 Signature" icon={Icon.Fingerprint} />
+      </Form.Dropdown>
+      {values.authType === "oauth2" && (
+        <>
+          {specFlows.length > 0 && (
+            <Form.Dropdown
+              id="specFlow"
+              title="From Spec"
+              info="Fill in the URLs and scopes declared by the spec"
+              defaultValue=""
+              onChange={applySpecFlow}
+            >
+              <Form.Dropdown.Item value="" title="Choose a flow..." />
+              {specFlows.map((flow, index) => (
+                <Form.Dropdown.Item
+                  key={`${flow.schemeName}-${flow.flow}`}
+                  value={String(index)}
+                  title={`${flow.schemeName}: ${OAUTH_FLOW_TITLES[flow.flow]}`}
+                />
+              ))}
+            </Form.Dropdown>
+          )}
+          <Form.Dropdown {...itemProps.oauthFlow} title="Flow">
+            <Form.Dropdown.Item value="clientCredentials" title={OAUTH_FLOW_TITLES.clientCredentials} />
+            <Form.Dropdown.Item value="authorizationCode" title={OAUTH_FLOW_TITLES.authorizationCode} />
+          </Form.Dropdown>
+          {values.oauthFlow === "authorizationCode" && (
+            <Form.TextField
+              {...itemProps.authorizationUrl}
+              title="Authorization URL"
+              placeholder="https://auth.example.com/authorize"
+            />
+          )}
+          <Form.TextField {...itemProps.tokenUrl} title="Token URL" placeholder="https://auth.example.com/token" />
+          <Form.TextField {...itemProps.clientId} title="Client ID" />
+          <Form.PasswordField
+            {...itemProps.clientSecret}
+            title="Client Secret"
+            info={values.oauthFlow === "authorizationCode" ? "Leave empty for public clients" : undefined}
+          />
+          <Form.TextField {...itemProps.scopes} title="Scopes" placeholder="read write" info="Space-separated" />
+          {values.oauthFlow === "authorizationCode" && (
+            <Form.TextField
+              {...itemProps.redirectUri}
+              title="Redirect URI"
+              info="Register this with the OAuth provider. A local listener receives the code on it."
+            />
+          )}
+          <Form.Description
+            title="Access Token"
+            text={
+              existingToken?.auth?.type === "oauth2" && existingOAuth?.expiresAt
+                ? `Current token expires ${new Date(existingOAuth.expiresAt).toLocaleString()}. Saving requests a new one, tokens are refreshed automatically before requests.`
+                : "Saving runs the flow and stores the access token. Tokens are refreshed automatically before requests."
+            }
+          />
+        </>
+      )}
+      {values.authType === "api-key" && (
+        <>
+          <Form.Dropdown {...itemProps.authIn} title="Send In">
+            <Form.Dropdown.Item value="header" title="Header" />
+            <Form.Dropdown.Item value="query" title="Query Parameter" />
+            <Form.Dropdown.Item value="cookie" title="Cookie" />
+          </Form.Dropdown>
+          <Form.TextField
+            {...itemProps.authName}
+            title="Name"
+            placeholder={values.authIn === "header" ? "X-API-Key" : "api_key"}
+            info="Header, query parameter or cookie name"
+          />
+        </>
+      )}
+      {(values.authType === "bearer" || (values.authType === "api-key" && values.authIn === "header")) && (
+        <Form.TextField
+          {...itemProps.authPrefix}
+          title="Prefix"
+          placeholder={values.authType === "bearer" ? "Bearer" : "None"}
+          info="Sent before the token, e.g. Token or Bearer"
+        />
+      )}
+      {(values.authType === "basic" || values.authType === "digest") && (
+        <Form.TextField {...itemProps.username} title="Username" placeholder="Enter your username" />
+      )}
+      {values.authType === "aws-sigv4" && (
+        <>
+          <Form.TextField {...itemProps.awsAccessKeyId} title="Access Key ID" placeholder="AKIA..." />
+          <Form.TextField {...itemProps.awsRegion} title="Region" placeholder="us-east-1" />
+          <Form.TextField
+            {...itemProps.awsService}
+            title="Service"
+            placeholder="execute-api"
+            info="The signing name of the service, e.g. execute-api for API Gateway or s3"
+          />
+          <Form.PasswordField
+            {...itemProps.awsSessionToken}
+            title="Session Token"
+            info="Only needed for temporary credentials"
+          />
+        </>
+      )}
+      {values.authType === "hmac" && (
+        <>
+          <Form.TextArea
+            {...itemProps.hmacTemplate}
+            title="Canonical String"
+            info="The string that is signed. Placeholders: {method}, {path}, {query}, {url}, {host}, {timestamp}, {date}, {body}, {bodySha256} and {header:Name}. Use \n or line breaks for newlines."
+          />
+          <Form.TextField
+            {...itemProps.hmacHeader}
+            title="Signature Header"
+            placeholder="Authorization"
+            info="Header the signature is sent in"
+          />
+          <Form.TextField
+            {...itemProps.hmacValueTemplate}
+            title="Header Value"
+            placeholder={DEFAULT_HMAC_VALUE}
+            info="Where {signature} goes, e.g. HMAC my-key-id:{signature}"
+          />
+          <Form.TextField
+            {...itemProps.hmacTimestampHeader}
+            title="Timestamp Header"
+            placeholder="X-Timestamp"
+            info="Optionally send the {timestamp} used in the signature in this header"
+          />
+          <Form.Dropdown {...itemProps.hmacEncoding} title="Signature Encoding">
+            <Form.Dropdown.Item value="hex" title="Hex" />
+            <Form.Dropdown.Item value="base64" title="Base64" />
+          </Form.Dropdown>
+        </>
+      )}
+      {values.authType !== "oauth2" && (
+        <Form.PasswordField
+          {...itemProps.token}
+          title={TOKEN_FIELD_TITLES[values.authType] || "API Token"}
+          placeholder={`Enter your ${(TOKEN_FIELD_TITLES[values.authType] || "API token").toLowerCase()}`}
+          info={
+            values.authType === "auto"
+              ? "For specs using basic auth, enter username:password and it will be encoded for you"
+              : undefined
+          }
+        />
+      )}
       <Form.Description
         title="Security"
         text="Tokens are stored in Raycast's local encrypted database and can only be accessed by this extension. To clear all data, use 'Clear Local Storage' in Raycast Preferences → Extensions → OpenAPI Fetcher."
@@ -0,0 +1,61 @@
+import { Action, ActionPanel, Clipboard, Icon, Keyboard, showToast, Toast } from "@raycast/api";
+import { getSnippetGenerator, SNIPPET_GENERATORS, SnippetGenerator } from "../lib/snippet-generators";
+import { SnippetRequest } from "../lib/snippet-request";
+import { joinShellLines } from "../lib/shell-quote";
+import { getErrorMessage } from "../lib/toast-utils";
+import { usePreferredSnippetLanguage } from "../hooks";
+
+export interface SnippetActionsProps {
+  /** Builds the request to copy, resolving to undefined cancels the copy (e.g. when validation fails) */
+  getRequest: () => SnippetRequest | undefined | Promise<SnippetRequest | undefined>;
+  /** Put cURL commands on a single line */
+  compactCurl?: boolean;
+  /** Shortcut for copying in the preferred language */
+  shortcut?: Keyboard.Shortcut;
+}
+
+/**
+ * "Copy as" action for the preferred language, plus a submenu with every language.
+ * Copying from the submenu makes that language the preferred one.
+ */
+export function SnippetActions({ getRequest, compactCurl, shortcut }: SnippetActionsProps) {
+  const { language, setLanguage } = usePreferredSnippetLanguage();
+  const preferred = getSnippetGenerator(language);
+
+  async function copy(generator: SnippetGenerator) {
+    try {
+      const request = await getRequest();
+      if (!request) return;
+
+      const snippet = generator.generate(request);
+      await Clipboard.copy(compactCurl && generator.language === "curl" ? joinShellLines(snippet) : snippet);
+      await setLanguage(generator.language);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Copied as ${generator.title}`,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to copy snippet",
+        message: getErrorMessage(error),
+      });
+    }
+  }
+
+  return (
+    <>
+      <Action
+        title={`Copy as ${preferred.title}`}
+        icon={Icon.Clipboard}
+        shortcut={shortcut}
+        onAction={() => copy(preferred)}
+      />
+      <ActionPanel.Submenu title="Copy as…" icon={Icon.Code}>
+        {SNIPPET_GENERATORS.map((generator) => (
+          <Action key={generator.language} title={generator.title} onAction={() => copy(generator)} />
+        ))}
+      </ActionPanel.Submenu>
+    </>
+  );
+}
@@ -12,3 +12,45 @@ export type { ResponseDetailProps } from "./ResponseDetail";
 
 export { BrowseEndpoints } from "./BrowseEndpoints";
 export type { BrowseEndpointsProps } from "./BrowseEndpoints";
+
+export { ServerForm, ServerFields } from "./ServerForm";
+export type { ServerFormProps, ServerFieldsProps } from "./ServerForm";
+
+export { BodyFields, BodyFieldActions } from "./BodyEditor";
+export type { BodyFieldsProps, BodyFieldActionsProps } from "./BodyEditor";
+
+export { ParameterField } from "./ParameterField";
+export type { ParameterFieldProps } from "./ParameterField";
+
+export { ConnectionFields } from "./ConnectionFields";
+export type { ConnectionFieldsProps } from "./ConnectionFields";
+
+export { SnippetActions } from "./SnippetActions";
+export type { SnippetActionsProps } from "./SnippetActions";
+
+export { ImportCurlRequest } from "./ImportCurlRequest";
+export type { ImportCurlRequestProps } from "./ImportCurlRequest";
+
+export { EnvironmentList } from "./EnvironmentList";
+export type { EnvironmentListProps } from "./EnvironmentList";
+
+export { EnvironmentForm } from "./EnvironmentForm";
+export type { EnvironmentFormProps } from "./EnvironmentForm";
+
+export { SaveRequestForm } from "./SaveRequestForm";
+export type { SaveRequestFormProps } from "./SaveRequestForm";
+
+export { ExtractionRulesForm } from "./ExtractionRulesForm";
+export type { ExtractionRulesFormProps } from "./ExtractionRulesForm";
+
+export { JsonExplorer } from "./JsonExplorer";
+export type { JsonExplorerProps } from "./JsonExplorer";
+
+export { JsonTable } from "./JsonTable";
+export type { JsonTableProps } from "./JsonTable";
+
+export { EventStreamDetail } from "./EventStreamDetail";
+export type { EventStreamDetailProps } from "./EventStreamDetail";
+
+export { SaveResponseFileForm } from "./SaveResponseFileForm";
+export type { SaveResponseFileFormProps } from "./SaveResponseFileForm";
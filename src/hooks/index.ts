@@ -1,2 +1,6 @@
 export { useSpecs } from "./useSpecs";
 export { useOpenApiSpec } from "./useOpenApiSpec";
+export { usePreferredSnippetLanguage } from "./usePreferredSnippetLanguage";
+export { useSavedRequests } from "./useSavedRequests";
+export { useRequestVariables } from "./useRequestVariables";
+export { useEventStream } from "./useEventStream";
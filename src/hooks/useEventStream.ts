@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { EventStream, EventStreamState } from "../lib/event-stream";
+
+/** Fast streams send hundreds of events a second, render at most this often */
+const RENDER_INTERVAL = 100;
+
+/**
+ * Hook for the current state of an event stream, following it as events arrive
+ */
+export function useEventStream(stream: EventStream): EventStreamState {
+  const [state, setState] = useState<EventStreamState>(() => stream.getState());
+
+  useEffect(() => {
+    let timeout: NodeJS.Timeout | undefined;
+    const unsubscribe = stream.subscribe(() => {
+      if (timeout) return;
+      timeout = setTimeout(() => {
+        timeout = undefined;
+        setState(stream.getState());
+      }, RENDER_INTERVAL);
+    });
+    // Catch up on anything that arrived before subscribing
+    setState(stream.getState());
+
+    return () => {
+      unsubscribe();
+      clearTimeout(timeout);
+    };
+  }, [stream]);
+
+  return state;
+}
@@ -1,8 +1,9 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { showToast, Toast } from "@raycast/api";
 import { getCachedSpec, fetchSpec } from "../lib/storage";
-import { getTokenForSpec, saveToken } from "../lib/secure-storage";
-import { parseEndpoints } from "../lib/openapi-parser";
+import { AuthProfile, saveToken } from "../lib/secure-storage";
+import { getActiveEnvironment, getActiveStoredToken } from "../lib/environments";
+import { parseEndpoints, resolveServerUrls } from "../lib/openapi-parser";
 import { OpenAPISpec, ParsedEndpoint, StoredSpec } from "../types/openapi";
 import { getErrorMessage } from "../lib/toast-utils";
 
@@ -10,6 +11,8 @@ interface UseOpenApiSpecResult {
   openApiSpec: OpenAPISpec | null;
   endpoints: ParsedEndpoint[];
   token: string | undefined;
+  /** How the token is sent, from the token's auth profile */
+  authProfile: AuthProfile | undefined;
   isLoading: boolean;
   setToken: (token: string | undefined, tokenName?: string) => Promise<void>;
 }
@@ -22,29 +25,37 @@ export function useOpenApiSpec(spec: StoredSpec): UseOpenApiSpecResult {
   const [endpoints, setEndpoints] = useState<ParsedEndpoint[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [token, setTokenState] = useState<string | undefined>();
+  const [authProfile, setAuthProfile] = useState<AuthProfile | undefined>();
+  // The spec may only be reachable with its CA, certificate or proxy, reload when they change
+  const connectionKey = JSON.stringify(spec.connection || {});
+  const loadedConnectionKey = useRef<string | undefined>(undefined);
 
   useEffect(() => {
+    const connectionChanged =
+      loadedConnectionKey.current !== undefined && loadedConnectionKey.current !== connectionKey;
+    loadedConnectionKey.current = connectionKey;
+
     async function load() {
       setIsLoading(true);
 
       try {
-        // Try cache first, then fetch
-        let loadedSpec = await getCachedSpec(spec.id);
+        // Try cache first, then fetch, skipping the cache when the connection settings changed
+        // Specs cached before relative server URLs were resolved get resolved here
+        let loadedSpec = connectionChanged ? null : await getCachedSpec(spec.id);
+        if (loadedSpec) {
+          loadedSpec = resolveServerUrls(loadedSpec, spec.url);
+        }
 
         if (!loadedSpec) {
           await showToast({
             style: Toast.Style.Animated,
             title: "Fetching spec...",
           });
-          loadedSpec = await fetchSpec(spec.url, spec.id);
+          loadedSpec = await fetchSpec(spec.url, spec.id, spec.connection);
         }
 
         setOpenApiSpec(loadedSpec);
         setEndpoints(parseEndpoints(loadedSpec));
-
-        // Load token if available for this spec
-        const savedToken = await getTokenForSpec(spec.id);
-        setTokenState(savedToken);
       } catch (error) {
         await showToast({
           style: Toast.Style.Failure,
@@ -57,7 +68,19 @@ export function useOpenApiSpec(spec: StoredSpec): UseOpenApiSpecResult {
     }
 
     load();
-  }, [spec.id, spec.url]);
+  }, [spec.id, spec.url, connectionKey]);
+
+  // Load the token for this spec, or the active environment's token
+  const environmentTokenId = getActiveEnvironment(spec)?.tokenId;
+  useEffect(() => {
+    async function loadToken() {
+      const savedToken = await getActiveStoredToken(spec);
+      setTokenState(savedToken?.token);
+      setAuthProfile(savedToken?.auth);
+    }
+
+    loadToken();
+  }, [spec.id, environmentTokenId]);
 
   /**
    * Set or update the token for this spec
@@ -74,5 +97,5 @@ export function useOpenApiSpec(spec: StoredSpec): UseOpenApiSpecResult {
     setTokenState(newToken);
   }
 
-  return { openApiSpec, endpoints, token, isLoading, setToken };
+  return { openApiSpec, endpoints, token, authProfile, isLoading, setToken };
 }
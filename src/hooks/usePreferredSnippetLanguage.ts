@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import { getPreferredSnippetLanguage, setPreferredSnippetLanguage } from "../lib/storage";
+import { DEFAULT_SNIPPET_LANGUAGE, SnippetLanguage } from "../lib/snippet-generators";
+
+interface UsePreferredSnippetLanguageResult {
+  language: SnippetLanguage;
+  setLanguage: (language: SnippetLanguage) => Promise<void>;
+}
+
+/**
+ * Hook for the remembered snippet language, defaulting to cURL until it loads
+ */
+export function usePreferredSnippetLanguage(): UsePreferredSnippetLanguageResult {
+  const [language, setLanguageState] = useState<SnippetLanguage>(DEFAULT_SNIPPET_LANGUAGE);
+
+  useEffect(() => {
+    getPreferredSnippetLanguage().then(setLanguageState);
+  }, []);
+
+  const setLanguage = useCallback(async (newLanguage: SnippetLanguage) => {
+    setLanguageState(newLanguage);
+    await setPreferredSnippetLanguage(newLanguage);
+  }, []);
+
+  return { language, setLanguage };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import { getSpec } from "../lib/storage";
+import { getRequestVariables } from "../lib/extraction";
+import { StoredSpec } from "../types/openapi";
+
+interface UseRequestVariablesResult {
+  /** The spec as currently stored, with its extraction rules */
+  spec: StoredSpec | undefined;
+  variables: Record<string, string>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for the {{variables}} a request can use, reloaded so values extracted by earlier requests show up
+ */
+export function useRequestVariables(
+  specId: string,
+  initialVariables: Record<string, string> = {},
+): UseRequestVariablesResult {
+  const [spec, setSpec] = useState<StoredSpec | undefined>();
+  const [variables, setVariables] = useState<Record<string, string>>(initialVariables);
+
+  const refresh = useCallback(async () => {
+    const storedSpec = await getSpec(specId);
+    if (storedSpec) {
+      setSpec(storedSpec);
+      setVariables(await getRequestVariables(storedSpec));
+    }
+  }, [specId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { spec, variables, refresh };
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState, useCallback } from "react";
+import { getSavedRequests } from "../lib/storage";
+import { SavedRequest } from "../types/openapi";
+
+interface UseSavedRequestsResult {
+  savedRequests: SavedRequest[];
+  /** Collection names in the order they were first used */
+  collections: string[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for loading saved requests and their collections
+ */
+export function useSavedRequests(): UseSavedRequestsResult {
+  const [savedRequests, setSavedRequests] = useState<SavedRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setSavedRequests(await getSavedRequests());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const collections = [...new Set(savedRequests.map((request) => request.collection))];
+
+  return { savedRequests, collections, isLoading, refresh };
+}
@@ -0,0 +1,110 @@
+import { AuthType, ParsedEndpoint } from "../types/openapi";
+import { AuthProfile } from "./secure-storage";
+import { isSignerType } from "./signers";
+
+export interface AuthOptions {
+  authType?: AuthType;
+  authIn?: "header" | "query" | "cookie"; // Where an API key goes, defaults to header
+  authHeader?: string; // API key header, query parameter or cookie name
+  authPrefix?: string; // Put before the token, defaults to "Bearer" for bearer auth and nothing for API keys
+  authUsername?: string; // Basic auth username, the token is then the password
+  signing?: AuthProfile; // Sign each request with this profile instead of sending the token
+}
+
+export interface AppliedAuth {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+}
+
+/**
+ * Auth settings for an endpoint. An explicit token profile wins over the endpoint's
+ * security scheme, which in turn falls back to a bearer token.
+ */
+export function getEndpointAuthOptions(endpoint: ParsedEndpoint, profile?: AuthProfile): AuthOptions {
+  const extras = { authPrefix: profile?.prefix, authUsername: profile?.username };
+
+  const type = profile?.type;
+  if (isSignerType(type)) {
+    return { signing: profile };
+  }
+  if (type === "oauth2") {
+    return { authType: "bearer", ...extras };
+  }
+  if (profile && type && type !== "auto") {
+    return { authType: type, authIn: profile.in, authHeader: profile.name, ...extras };
+  }
+
+  const auth = endpoint.auth;
+  if (!auth) {
+    return { authType: "bearer", ...extras };
+  }
+  return { authType: auth.type, authIn: auth.in, authHeader: auth.name, ...extras };
+}
+
+/**
+ * Work out the headers and query parameters that carry a token.
+ * Signed requests get nothing here, their headers come from the signer once the request is built.
+ */
+export function applyAuth(options: AuthOptions, token: string): AppliedAuth {
+  if (options.signing) {
+    return { headers: {}, query: {} };
+  }
+
+  const { authType = "bearer", authIn = "header", authHeader = "X-API-Key", authPrefix, authUsername } = options;
+
+  switch (authType) {
+    case "bearer":
+      return { headers: { Authorization: withPrefix(authPrefix ?? "Bearer", token) }, query: {} };
+    case "basic": {
+      const credentials = authUsername
+        ? encodeBasicCredentials(`${authUsername}:${token}`)
+        : encodeBasicCredentials(token);
+      return { headers: { Authorization: `Basic ${credentials}` }, query: {} };
+    }
+    case "api-key":
+      if (authIn === "query") {
+        return { headers: {}, query: { [authHeader]: token } };
+      }
+      if (authIn === "cookie") {
+        return { headers: { Cookie: `${authHeader}=${token}` }, query: {} };
+      }
+      return { headers: { [authHeader]: withPrefix(authPrefix, token) }, query: {} };
+  }
+}
+
+function withPrefix(prefix: string | undefined, token: string): string {
+  return prefix ? `${prefix} ${token}` : token;
+}
+
+/**
+ * Base64-encode "username:password" credentials. Already encoded tokens pass through,
+ * base64 never contains a colon.
+ */
+export function encodeBasicCredentials(token: string): string {
+  return token.includes(":") ? Buffer.from(token, "utf-8").toString("base64") : token;
+}
+
+/**
+ * Human-readable summary of how the token is sent, e.g. "API key in query (api_key)"
+ */
+export function describeAuth(options: AuthOptions): string {
+  switch (options.signing?.type) {
+    case "aws-sigv4": {
+      const { region = "us-east-1", service = "execute-api" } = options.signing.aws || {};
+      return `AWS Signature V4 (${region}, ${service})`;
+    }
+    case "hmac":
+      return `HMAC-SHA256 signature in ${options.signing.hmac?.header || "Authorization"}`;
+    case "digest":
+      return options.signing.username ? `HTTP digest auth as ${options.signing.username}` : "HTTP digest auth";
+  }
+
+  switch (options.authType) {
+    case "basic":
+      return options.authUsername ? `HTTP basic auth as ${options.authUsername}` : "HTTP basic auth";
+    case "api-key":
+      return `API key in ${options.authIn || "header"} (${options.authHeader || "X-API-Key"})`;
+    default:
+      return "Bearer token";
+  }
+}
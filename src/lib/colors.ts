@@ -13,10 +13,30 @@ export function getMethodColor(method: string): Color {
     DELETE: Color.Red,
     OPTIONS: Color.Purple,
     HEAD: Color.Magenta,
+    TRACE: Color.SecondaryText,
   };
   return colors[method.toUpperCase()] || Color.SecondaryText;
 }
 
+/**
+ * Get the color for a response status code as declared in a spec, e.g. "200", "4XX" or "default"
+ */
+export function getStatusColor(status: string): Color {
+  switch (status[0]) {
+    case "1":
+    case "3":
+      return Color.Blue;
+    case "2":
+      return Color.Green;
+    case "4":
+      return Color.Orange;
+    case "5":
+      return Color.Red;
+    default:
+      return Color.SecondaryText;
+  }
+}
+
 /**
  * Alias for getMethodColor - used in tag displays
  */
@@ -1,174 +1,88 @@
-import { ParsedEndpoint } from "../types/openapi";
-import { getPathParams, getQueryParams, getHeaderParams, getRequestBodyContentType } from "./openapi-parser";
-
-export interface CurlOptions {
+import { ConnectionSettings, ParsedEndpoint } from "../types/openapi";
+import { FormValues, getFormCurlArgs } from "./form-body";
+import { AuthOptions } from "./auth";
+import { getConnectionCurlArgs } from "./http-client";
+import { buildSnippetRequest, getSignedHeaders, SnippetRequest } from "./snippet-request";
+import { formatShellCommand, getShellDialect, joinShellLines, ShellArg } from "./shell-quote";
+
+export interface CurlOptions extends AuthOptions {
   baseUrl: string;
   authToken?: string;
-  authType?: "bearer" | "api-key" | "basic";
-  authHeader?: string; // Custom header name for API key auth
   includeExampleBody?: boolean;
   paramValues?: Record<string, string>; // Actual values for parameters
   bodyJson?: string; // Custom JSON body for the request
+  formValues?: FormValues; // Field values and file paths for form bodies
+  connection?: ConnectionSettings; // The spec's TLS and proxy settings
+  extraHeaders?: Record<string, string>; // Headers the endpoint doesn't declare
+  extraQuery?: [string, string][]; // Query parameters the endpoint doesn't declare
+  variables?: Record<string, string>; // Active environment's values for {{name}}
 }
 
 /**
- * Generate a cURL command for an endpoint
+ * Generate a cURL command for an endpoint, quoted for the preferred shell
  */
-export function generateCurl(endpoint: ParsedEndpoint, options: CurlOptions): string {
-  const { baseUrl, authToken, authType = "bearer", authHeader = "X-API-Key", paramValues = {} } = options;
+export function generateCurl(endpoint: ParsedEndpoint, options: CurlOptions, dialect = getShellDialect()): string {
+  return generateCurlFromRequest(buildSnippetRequest(endpoint, options), dialect);
+}
 
-  const parts: string[] = ["curl"];
+/**
+ * Render an assembled request as a cURL command, quoted for the preferred shell
+ */
+export function generateCurlFromRequest(request: SnippetRequest, dialect = getShellDialect()): string {
+  const { method, url, signer } = request;
+  const args: ShellArg[] = [];
 
   // Add method (skip for GET as it's default)
-  if (endpoint.method !== "GET") {
-    parts.push(`-X ${endpoint.method}`);
-  }
-
-  // Build the URL with path parameters
-  let url = `${baseUrl}${endpoint.path}`;
-  const pathParams = getPathParams(endpoint);
-  for (const param of pathParams) {
-    const value = paramValues[param.name];
-    if (value) {
-      url = url.replace(`{${param.name}}`, encodeURIComponent(value));
-    } else {
-      url = url.replace(`{${param.name}}`, `{${param.name}}`);
-    }
-  }
-
-  // Add query parameters - only include those with values or required ones
-  const queryParams = getQueryParams(endpoint);
-  const queryParts: string[] = [];
-  for (const param of queryParams) {
-    const value = paramValues[param.name];
-    if (value) {
-      queryParts.push(`${param.name}=${encodeURIComponent(value)}`);
-    } else if (param.required) {
-      queryParts.push(`${param.name}={${param.name}}`);
-    }
-    // Skip optional params without values
-  }
-  if (queryParts.length > 0) {
-    url += `?${queryParts.join("&")}`;
-  }
-
-  // Add auth header
-  if (authToken) {
-    switch (authType) {
-      case "bearer":
-        parts.push(`-H "Authorization: Bearer ${authToken}"`);
-        break;
-      case "api-key":
-        parts.push(`-H "${authHeader}: ${authToken}"`);
-        break;
-      case "basic":
-        parts.push(`-H "Authorization: Basic ${authToken}"`);
-        break;
-    }
-  } else if (endpoint.hasAuth) {
-    // Add placeholder for auth
-    parts.push('-H "Authorization: Bearer <YOUR_TOKEN>"');
-  }
-
-  // Add custom header parameters - only include those with values or required ones
-  const headerParams = getHeaderParams(endpoint);
-  for (const param of headerParams) {
-    const value = paramValues[param.name];
-    if (value) {
-      parts.push(`-H "${param.name}: ${value}"`);
-    } else if (param.required) {
-      parts.push(`-H "${param.name}: {${param.name}}"`);
-    }
+  if (method !== "GET") {
+    args.push(["-X", method]);
   }
 
-  // Add Content-Type for requests with body (use spec-defined content type or default to application/json)
-  if (endpoint.requestBody && ["POST", "PUT", "PATCH"].includes(endpoint.method)) {
-    const contentType = getRequestBodyContentType(endpoint) || "application/json";
-    parts.push(`-H "Content-Type: ${contentType}"`);
-
-    // Use custom body JSON if provided, otherwise use example or placeholder
-    if (options.bodyJson) {
-      // Escape single quotes in the JSON for shell safety
-      const escapedBody = options.bodyJson.replace(/'/g, "'\\''");
-      parts.push(`-d '${escapedBody}'`);
-    } else if (options.includeExampleBody) {
-      const exampleBody = generateExampleBody(endpoint);
-      parts.push(`-d '${exampleBody}'`);
-    } else {
-      parts.push("-d '<REQUEST_BODY>'");
-    }
+  // Let curl sign the request where it supports the scheme, otherwise sign it here
+  const headers = signer?.curlArgs ? request.headers : getSignedHeaders(request);
+  for (const [name, value] of Object.entries(headers)) {
+    args.push(["-H", `${name}: ${value}`]);
   }
 
-  // Add the URL (quoted to handle special chars)
-  parts.push(`"${url}"`);
-
-  return parts.join(" \\\n  ");
-}
-
-/**
- * Generate a simple example request body based on the endpoint's requestBody schema
- */
-function generateExampleBody(endpoint: ParsedEndpoint): string {
-  if (!endpoint.requestBody?.content) {
-    return "{}";
+  // cmd can't pass line breaks in arguments, values with them are read from files instead
+  const valueFiles: string[] = [];
+  const getValueFile = (value: string, name: string, description: string) => {
+    if (dialect !== "cmd" || !/[\r\n]/.test(value)) return undefined;
+    valueFiles.push(`rem Save ${description} as ${name} first, cmd can't pass its line breaks`);
+    return name;
+  };
+
+  if (request.form) {
+    args.push(
+      ...getFormCurlArgs(request.form.multipart, request.form.fields, (field) =>
+        getValueFile(field.value, `${field.name.replace(/[^\w.-]/g, "_")}.txt`, `the ${field.name} field`),
+      ),
+    );
+  } else if (request.body !== undefined) {
+    const bodyFile = getValueFile(request.body, "body.txt", "the request body");
+    // --data-binary keeps the file's line breaks, -d would strip them
+    args.push(bodyFile ? ["--data-binary", `@${bodyFile}`] : ["-d", request.body]);
   }
 
-  const jsonContent = endpoint.requestBody.content["application/json"];
-  if (!jsonContent?.schema) {
-    return "{}";
+  if (signer?.curlArgs) {
+    args.push(...signer.curlArgs);
   }
+  args.push(...getConnectionCurlArgs(request.connection));
 
-  const schema = jsonContent.schema;
-
-  // Generate a simple example object
-  if (schema.type === "object" && schema.properties) {
-    const example: Record<string, unknown> = {};
-
-    for (const [key, prop] of Object.entries(schema.properties)) {
-      if (prop.example !== undefined) {
-        example[key] = prop.example;
-      } else if (prop.default !== undefined) {
-        example[key] = prop.default;
-      } else {
-        example[key] = getDefaultValue(prop.type, prop.format);
-      }
-    }
-
-    return JSON.stringify(example, null, 2);
+  // Stop curl from reading deepObject brackets and {placeholders} as globs
+  if (/[[\]{}]/.test(url)) {
+    args.push(["-g"]);
   }
 
-  return "{}";
-}
+  args.push(["", url]);
 
-/**
- * Get a default placeholder value for a schema type
- */
-function getDefaultValue(type?: string, format?: string): unknown {
-  switch (type) {
-    case "string":
-      if (format === "email") return "user@example.com";
-      if (format === "date") return "2024-01-01";
-      if (format === "date-time") return "2024-01-01T00:00:00Z";
-      if (format === "uuid") return "00000000-0000-0000-0000-000000000000";
-      return "string";
-    case "number":
-    case "integer":
-      return 0;
-    case "boolean":
-      return true;
-    case "array":
-      return [];
-    case "object":
-      return {};
-    default:
-      return null;
-  }
+  // PowerShell 5 aliases curl to Invoke-WebRequest
+  const command = formatShellCommand(dialect === "powershell" ? "curl.exe" : "curl", args, dialect);
+  return [...valueFiles, command].join("\n");
 }
 
 /**
  * Generate a compact single-line cURL for quick copy
  */
 export function generateCompactCurl(endpoint: ParsedEndpoint, options: CurlOptions): string {
-  const fullCurl = generateCurl(endpoint, options);
-  return fullCurl.replace(/\s*\\\n\s*/g, " ");
+  return joinShellLines(generateCurl(endpoint, options));
 }
@@ -0,0 +1,228 @@
+import { FormSnippetField } from "./form-body";
+import { splitShellCommand } from "./shell-quote";
+
+/**
+ * The parts of a cURL command that make up the request
+ */
+export interface ParsedCurl {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Body from -d, --data-raw, --data-urlencode or --json, joined with & like curl does */
+  body?: string;
+  /** Multipart fields from -F or --form-string */
+  form?: FormSnippetField[];
+}
+
+// Options that take a value, including ones that don't change the request itself
+const VALUE_OPTIONS = new Set(
+  [
+    "-X --request -H --header -d --data --data-ascii --data-binary --data-raw --data-urlencode --json",
+    "-F --form --form-string -u --user -b --cookie -A --user-agent -e --referer --url --oauth2-bearer",
+    "-o --output -x --proxy -U --proxy-user --cacert --capath -E --cert --key --cert-type --key-type --pass",
+    "-m --max-time --connect-timeout -w --write-out --aws-sigv4 -T --upload-file -K --config -r --range",
+    "--retry --retry-delay --retry-max-time --resolve --connect-to --limit-rate -c --cookie-jar",
+    "-D --dump-header --max-redirs --interface -y --speed-time -Y --speed-limit -z --time-cond",
+    "-C --continue-at --proto --proto-redir --ciphers --tls-max --noproxy --stderr --trace --trace-ascii",
+  ]
+    .join(" ")
+    .split(" "),
+);
+// Short options that take a value, for splitting bundles like -sSX
+const SHORT_VALUE_OPTIONS = "XHdFubAexoUEmwTKrcDyYzC";
+
+/**
+ * Expand bundled short options, e.g. -sSL into -s -S -L and -XPOST into -X POST
+ */
+function expandShortOptions(arg: string): string[] {
+  const expanded: string[] = [];
+  for (let i = 1; i < arg.length; i++) {
+    const option = `-${arg[i]}`;
+    if (SHORT_VALUE_OPTIONS.includes(arg[i]) && i + 1 < arg.length) {
+      expanded.push(option, arg.slice(i + 1));
+      break;
+    }
+    expanded.push(option);
+  }
+  return expanded;
+}
+
+/**
+ * Expand bundled short options and long options written as --name=value
+ */
+function expandOption(arg: string): string[] {
+  if (/^-[^-]{2,}/.test(arg)) {
+    return expandShortOptions(arg);
+  }
+  const longOption = /^(--[^=]+)=([\s\S]*)$/.exec(arg);
+  return longOption && VALUE_OPTIONS.has(longOption[1]) ? [longOption[1], longOption[2]] : [arg];
+}
+
+/**
+ * Encode a --data-urlencode value: "content", "=content", "name=content", "@file" or "name@file"
+ */
+function encodeDataUrlencode(value: string): string {
+  const match = /^([^=@]*)([=@])([\s\S]*)$/.exec(value);
+  if (!match) {
+    return encodeURIComponent(value);
+  }
+  const [, name, separator, content] = match;
+  // Files are read by curl, keep the reference as written
+  if (separator === "@") {
+    return value;
+  }
+  return name ? `${name}=${encodeURIComponent(content)}` : encodeURIComponent(content);
+}
+
+function setHeader(headers: Record<string, string>, name: string, value: string) {
+  const existing = Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+  if (existing) {
+    delete headers[existing];
+  }
+  headers[name] = value;
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some((key) => key.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Parse a cURL command as copied from docs, a browser or a terminal, in POSIX, cmd or PowerShell syntax
+ */
+export function parseCurlCommand(command: string): ParsedCurl {
+  const args = splitShellCommand(command.trim());
+  if (!args[0] || !/^curl(\.exe)?$/i.test(args[0])) {
+    throw new Error("Not a cURL command");
+  }
+
+  const tokens = args.slice(1);
+
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  const form: FormSnippetField[] = [];
+  let method: string | undefined;
+  let url: string | undefined;
+  let useGet = false;
+  let useHead = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    // Only tokens in option position are expanded, values like -d '-abc' are taken as they are
+    tokens.splice(i, 1, ...expandOption(tokens[i]));
+    const token = tokens[i];
+    if (!token.startsWith("-") || token === "-") {
+      url = url ?? token;
+      continue;
+    }
+
+    let value = "";
+    if (VALUE_OPTIONS.has(token)) {
+      if (i + 1 >= tokens.length) {
+        throw new Error(`Missing value for ${token}`);
+      }
+      value = tokens[++i];
+    }
+
+    switch (token) {
+      case "-X":
+      case "--request":
+        method = value.toUpperCase();
+        break;
+      case "-H":
+      case "--header": {
+        const index = value.indexOf(":");
+        // "Name:" removes a header in curl and "Name;" sends it empty
+        if (index > 0 && value.slice(index + 1).trim()) {
+          setHeader(headers, value.slice(0, index).trim(), value.slice(index + 1).trim());
+        } else if (value.endsWith(";")) {
+          setHeader(headers, value.slice(0, -1).trim(), "");
+        }
+        break;
+      }
+      case "-d":
+      case "--data":
+      case "--data-ascii":
+      case "--data-binary":
+      case "--data-raw":
+        data.push(value);
+        break;
+      case "--data-urlencode":
+        data.push(encodeDataUrlencode(value));
+        break;
+      case "--json":
+        data.push(value);
+        if (!hasHeader(headers, "Content-Type")) setHeader(headers, "Content-Type", "application/json");
+        if (!hasHeader(headers, "Accept")) setHeader(headers, "Accept", "application/json");
+        break;
+      case "-F":
+      case "--form":
+      case "--form-string": {
+        const index = value.indexOf("=");
+        if (index > 0) {
+          const fieldValue = value.slice(index + 1);
+          // -F reads @path as a file upload, --form-string never does
+          const file = token !== "--form-string" && fieldValue.startsWith("@");
+          form.push({
+            name: value.slice(0, index),
+            value: file ? fieldValue.slice(1).replace(/;type=.*$/, "") : fieldValue,
+            file,
+          });
+        }
+        break;
+      }
+      case "-u":
+      case "--user": {
+        const credentials = value.includes(":") ? value : `${value}:`;
+        setHeader(headers, "Authorization", `Basic ${Buffer.from(credentials).toString("base64")}`);
+        break;
+      }
+      case "--oauth2-bearer":
+        setHeader(headers, "Authorization", `Bearer ${value}`);
+        break;
+      case "-b":
+      case "--cookie":
+        // Without a = the value names a cookie file
+        if (value.includes("=")) setHeader(headers, "Cookie", value);
+        break;
+      case "-A":
+      case "--user-agent":
+        setHeader(headers, "User-Agent", value);
+        break;
+      case "-e":
+      case "--referer":
+        setHeader(headers, "Referer", value);
+        break;
+      case "--url":
+        url = value;
+        break;
+      case "-G":
+      case "--get":
+        useGet = true;
+        break;
+      case "-I":
+      case "--head":
+        useHead = true;
+        break;
+    }
+  }
+
+  if (!url) {
+    throw new Error("No URL found in the cURL command");
+  }
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+    url = `http://${url}`;
+  }
+
+  const body = data.length > 0 ? data.join("&") : undefined;
+  if (useGet && body !== undefined) {
+    // -G sends the data as query parameters
+    url = `${url}${url.includes("?") ? "&" : "?"}${body}`;
+  }
+
+  return {
+    method: method || (useHead ? "HEAD" : useGet ? "GET" : body !== undefined || form.length > 0 ? "POST" : "GET"),
+    url,
+    headers,
+    body: useGet ? undefined : body,
+    form: form.length > 0 ? form : undefined,
+  };
+}
@@ -0,0 +1,67 @@
+import { Environment, StoredSpec } from "../types/openapi";
+import { getStoredTokenForSpec, getTokenById, StoredToken } from "./secure-storage";
+
+export function generateEnvironmentId(): string {
+  return `env-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function getActiveEnvironment(spec: StoredSpec): Environment | undefined {
+  return spec.environments?.find((environment) => environment.id === spec.activeEnvironmentId);
+}
+
+/**
+ * Replace {{name}} with the variable's value, unknown variables are left as they are
+ */
+export function substituteVariables(text: string, variables: Record<string, string> = {}): string {
+  return text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+/**
+ * Substitute variables in every string value, e.g. parameter or form values
+ */
+export function substituteValues<T extends string | string[]>(
+  values: Record<string, T>,
+  variables: Record<string, string> = {},
+): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [
+      name,
+      typeof value === "string" ? substituteVariables(value, variables) : value,
+    ]),
+  ) as Record<string, T>;
+}
+
+/**
+ * The environment's base URL with its variables filled in
+ */
+export function getEnvironmentBaseUrl(environment: Environment | undefined): string | undefined {
+  return environment?.baseUrl ? substituteVariables(environment.baseUrl, environment.variables) : undefined;
+}
+
+/**
+ * The token to send for a spec: the active environment's token, or else the spec's default token
+ */
+export async function getActiveStoredToken(spec: StoredSpec): Promise<StoredToken | undefined> {
+  const tokenId = getActiveEnvironment(spec)?.tokenId;
+  return (tokenId && (await getTokenById(tokenId))) || getStoredTokenForSpec(spec.id);
+}
+
+/**
+ * Variables as "name=value" lines, for editing in a text area
+ */
+export function formatVariableLines(variables: Record<string, string>): string {
+  return Object.entries(variables)
+    .map(([name, value]) => `${name}=${value}`)
+    .join("\n");
+}
+
+export function parseVariableLines(text: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const index = line.indexOf("=");
+    if (index > 0) {
+      variables[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return variables;
+}
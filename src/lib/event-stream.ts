@@ -0,0 +1,207 @@
+import { ServerSentEvent } from "../types/openapi";
+import { getErrorMessage } from "./toast-utils";
+
+/**
+ * Headers of a streamed response, known before its events arrive
+ */
+export interface EventStreamResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  contentType: string;
+  headers: Record<string, string>;
+}
+
+export interface EventStreamState {
+  response?: EventStreamResponse;
+  events: ServerSentEvent[];
+  status: "connecting" | "streaming" | "closed" | "stopped" | "failed";
+  error?: string;
+}
+
+/**
+ * Events of a streamed response as they arrive, shared between the request and the view showing it
+ */
+export interface EventStream {
+  /** Aborted when the stream is stopped */
+  signal: AbortSignal;
+  /** A snapshot of the stream, taken when it's read rather than on every event */
+  getState: () => EventStreamState;
+  /** Listeners are told something changed and read it with getState. Returns a function that unsubscribes. */
+  subscribe: (listener: () => void) => () => void;
+  open: (response: EventStreamResponse) => void;
+  addEvent: (event: ServerSentEvent) => void;
+  close: (error?: string) => void;
+  stop: () => void;
+}
+
+export function isEventStreamContentType(contentType: string): boolean {
+  return contentType.toLowerCase().includes("text/event-stream");
+}
+
+/**
+ * Create a stream for executeEndpointRequest to fill in, onOpen is called once its headers arrive
+ */
+export function createEventStream(onOpen?: (response: EventStreamResponse) => void): EventStream {
+  const controller = new AbortController();
+  const listeners = new Set<() => void>();
+  // Events are appended in place, long streams would be copied on every event otherwise
+  const events: ServerSentEvent[] = [];
+  let state: Omit<EventStreamState, "events"> = { status: "connecting" };
+  let snapshot: EventStreamState | undefined;
+
+  function notify() {
+    snapshot = undefined;
+    listeners.forEach((listener) => listener());
+  }
+
+  function update(changes: Partial<Omit<EventStreamState, "events">>) {
+    state = { ...state, ...changes };
+    notify();
+  }
+
+  const isDone = () => state.status === "closed" || state.status === "stopped" || state.status === "failed";
+
+  return {
+    signal: controller.signal,
+    getState() {
+      snapshot ??= { ...state, events: events.slice() };
+      return snapshot;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    open(response) {
+      // Stopped before the headers arrived, e.g. the view was closed while connecting
+      if (isDone()) return;
+      update({ response, status: "streaming" });
+      onOpen?.(response);
+    },
+    addEvent(event) {
+      if (isDone()) return;
+      events.push(event);
+      notify();
+    },
+    close(error) {
+      if (!isDone()) update(error ? { status: "failed", error } : { status: "closed" });
+    },
+    stop() {
+      if (isDone()) return;
+      update({ status: "stopped" });
+      controller.abort();
+    },
+  };
+}
+
+/**
+ * Incremental text/event-stream parser. Feed it chunks as they arrive, it calls onEvent for each
+ * complete event. Comments and retry fields are ignored.
+ */
+export function createEventStreamParser(onEvent: (event: Omit<ServerSentEvent, "receivedAt">) => void) {
+  let buffer = "";
+  let data: string[] = [];
+  let eventType = "";
+  let lastId: string | undefined;
+
+  function dispatch() {
+    if (data.length > 0) {
+      onEvent({ event: eventType || "message", data: data.join("\n"), id: lastId });
+    }
+    data = [];
+    eventType = "";
+  }
+
+  function processLine(line: string) {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "data") data.push(value);
+    else if (field === "event") eventType = value;
+    else if (field === "id" && !value.includes("\0")) lastId = value;
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      // A trailing \r may be the first half of \r\n, wait for the next chunk
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+      buffer = lines.pop() ?? "";
+      lines.forEach(processLine);
+    },
+    /** Dispatch what's left once the stream ends */
+    end() {
+      if (buffer) processLine(buffer.replace(/\r$/, ""));
+      buffer = "";
+      dispatch();
+    },
+  };
+}
+
+/**
+ * Read a text/event-stream body to the end, passing events to the stream as they arrive.
+ * Stopping the stream ends reading early, with the events received so far.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  stream?: EventStream,
+): Promise<{ events: ServerSentEvent[]; size: number }> {
+  const start = Date.now();
+  const events: ServerSentEvent[] = [];
+  const parser = createEventStreamParser((event) => {
+    const received = { ...event, receivedAt: Date.now() - start };
+    events.push(received);
+    stream?.addEvent(received);
+  });
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => reader.cancel().catch(() => undefined);
+  stream?.signal.addEventListener("abort", cancel);
+  // The abort event has already fired for streams stopped while connecting
+  if (stream?.signal.aborted) cancel();
+  let size = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+    parser.push(decoder.decode());
+    parser.end();
+    stream?.close();
+  } catch (error) {
+    // Keep what arrived before the connection dropped, the stream view shows the error
+    if (!stream) throw error;
+    stream.close(getErrorMessage(error));
+  } finally {
+    stream?.signal.removeEventListener("abort", cancel);
+  }
+
+  return { events, size };
+}
+
+/**
+ * Events as they'd appear on the wire, for copying and history
+ */
+export function formatEvents(events: ServerSentEvent[]): string {
+  return events
+    .map((event) =>
+      [
+        event.event !== "message" ? `event: ${event.event}` : undefined,
+        event.id !== undefined ? `id: ${event.id}` : undefined,
+        ...event.data.split("\n").map((line) => `data: ${line}`),
+      ]
+        .filter((line) => line !== undefined)
+        .join("\n"),
+    )
+    .join("\n\n");
+}
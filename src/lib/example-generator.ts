@@ -0,0 +1,323 @@
+import { ParsedEndpoint, Schema } from "../types/openapi";
+import { getMediaTypeExample, getPrimaryType, getRequestBodyContentType, getSchemaExample } from "./openapi-parser";
+
+// Deep enough for real payloads, shallow enough to keep examples readable
+const MAX_DEPTH = 10;
+const MAX_ARRAY_ITEMS = 10;
+
+/**
+ * Generate an example request body for an endpoint.
+ * Media type examples win over examples synthesized from the schema.
+ */
+export function generateExampleBody(endpoint: ParsedEndpoint): string {
+  const contentType = getRequestBodyContentType(endpoint);
+  const mediaType = contentType ? endpoint.requestBody?.content?.[contentType] : undefined;
+  if (!mediaType) {
+    return "{}";
+  }
+
+  const example = getMediaTypeExample(mediaType) ?? (mediaType.schema ? generateExample(mediaType.schema) : undefined);
+  if (example === undefined) {
+    return "{}";
+  }
+
+  // Non-JSON bodies like text/plain use string examples verbatim
+  if (typeof example === "string" && !contentType?.includes("json")) {
+    return example;
+  }
+  return JSON.stringify(example, null, 2);
+}
+
+/**
+ * Synthesize an example value from a dereferenced schema.
+ * Meant for request bodies, so readOnly properties are left out.
+ * Returns undefined when the schema only leads back into itself.
+ */
+export function generateExample(schema: Schema): unknown {
+  return generateValue(schema, new Set(), 0);
+}
+
+function generateValue(schema: Schema, seen: Set<Schema>, depth: number): unknown {
+  // Dereferenced recursive schemas point back at themselves
+  if (seen.has(schema) || depth > MAX_DEPTH) {
+    return undefined;
+  }
+
+  if (schema.const !== undefined) return schema.const;
+  const example = getSchemaExample(schema);
+  if (example !== undefined) return example;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum.find((value) => value !== null) ?? schema.enum[0];
+  }
+
+  seen.add(schema);
+  try {
+    if (schema.allOf && schema.allOf.length > 0) {
+      return generateValue(mergeAllOf(schema), seen, depth + 1);
+    }
+
+    // Skip { type: "null" } options, they make for useless examples
+    const options = (schema.oneOf || schema.anyOf || []).filter((option) => getPrimaryType(option) || !option.type);
+    if (options.length > 0) {
+      return generateValue(options[0], seen, depth + 1);
+    }
+
+    const type = getPrimaryType(schema) || (schema.properties ? "object" : schema.items ? "array" : undefined);
+    switch (type) {
+      case "object":
+        return generateObject(schema, seen, depth);
+      case "array":
+        return generateArray(schema, seen, depth);
+      case "string":
+        return generateString(schema);
+      case "integer":
+        return generateNumber(schema, true);
+      case "number":
+        return generateNumber(schema, false);
+      case "boolean":
+        return true;
+      default:
+        return null;
+    }
+  } finally {
+    seen.delete(schema);
+  }
+}
+
+/**
+ * Fold allOf parts into a single schema, with the schema's own keywords taking precedence
+ */
+function mergeAllOf(schema: Schema): Schema {
+  const { allOf = [], ...own } = schema;
+
+  return [...allOf, own].reduce<Schema>(
+    (merged, part) => ({
+      ...merged,
+      ...part,
+      properties: { ...merged.properties, ...part.properties },
+      required: [...(merged.required || []), ...(part.required || [])],
+    }),
+    {},
+  );
+}
+
+function generateObject(schema: Schema, seen: Set<Schema>, depth: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [name, propSchema] of Object.entries(schema.properties || {})) {
+    // Server-assigned fields like id or created_at can't be sent
+    if (propSchema.readOnly) continue;
+
+    const value = generateValue(propSchema, seen, depth + 1);
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  }
+
+  // Maps like metadata: { [key: string]: string }
+  if (!schema.properties && typeof schema.additionalProperties === "object") {
+    const value = generateValue(schema.additionalProperties, seen, depth + 1);
+    if (value !== undefined) {
+      result.key = value;
+    }
+  }
+
+  return result;
+}
+
+function generateArray(schema: Schema, seen: Set<Schema>, depth: number): unknown[] {
+  if (schema.prefixItems) {
+    return schema.prefixItems.map((itemSchema) => generateValue(itemSchema, seen, depth + 1) ?? null);
+  }
+  if (!schema.items || schema.maxItems === 0) {
+    return [];
+  }
+
+  const item = generateValue(schema.items, seen, depth + 1);
+  if (item === undefined) {
+    return [];
+  }
+
+  const count = Math.min(Math.max(schema.minItems ?? 1, 1), MAX_ARRAY_ITEMS);
+  return Array.from({ length: count }, () => item);
+}
+
+const STRING_FORMAT_EXAMPLES: Record<string, string> = {
+  email: "user@example.com",
+  date: "2024-01-01",
+  "date-time": "2024-01-01T00:00:00Z",
+  time: "12:00:00",
+  uuid: "00000000-0000-0000-0000-000000000000",
+  uri: "https://example.com",
+  url: "https://example.com",
+  hostname: "example.com",
+  ipv4: "192.0.2.1",
+  ipv6: "2001:db8::1",
+  byte: "c3RyaW5n",
+  password: "password",
+};
+
+function generateString(schema: Schema): string {
+  if (schema.pattern) {
+    const sample = sampleFromPattern(schema.pattern);
+    if (sample !== undefined) {
+      return sample;
+    }
+  }
+
+  let value = (schema.format && STRING_FORMAT_EXAMPLES[schema.format]) || "string";
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, "x");
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    value = value.slice(0, schema.maxLength);
+  }
+  return value;
+}
+
+function generateNumber(schema: Schema, integer: boolean): number {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+
+  // 3.1 uses numeric exclusive bounds, 3.0 uses booleans that modify minimum/maximum
+  const lower =
+    typeof exclusiveMinimum === "number"
+      ? exclusiveMinimum + 1
+      : minimum !== undefined
+        ? minimum + (exclusiveMinimum ? 1 : 0)
+        : undefined;
+  const upper =
+    typeof exclusiveMaximum === "number"
+      ? exclusiveMaximum - 1
+      : maximum !== undefined
+        ? maximum - (exclusiveMaximum ? 1 : 0)
+        : undefined;
+
+  let value = lower ?? (upper !== undefined ? Math.min(0, upper) : 0);
+  if (multipleOf) {
+    value = Math.ceil(value / multipleOf) * multipleOf;
+  }
+  return integer ? Math.ceil(value) : value;
+}
+
+/**
+ * Build a string matching a simple regular expression.
+ * Handles literals, escapes like \d, character classes, groups with alternation and quantifiers.
+ * Returns undefined for anything else, or when the result doesn't actually match.
+ */
+function sampleFromPattern(pattern: string): string | undefined {
+  let pos = 0;
+
+  const parseEscape = (ch: string | undefined): string => {
+    switch (ch) {
+      case undefined:
+        throw new Error("Trailing escape");
+      case "d":
+        return "0";
+      case "w":
+      case "D":
+      case "S":
+        return "a";
+      case "s":
+        return " ";
+      case "W":
+        return "-";
+      default:
+        return ch;
+    }
+  };
+
+  const parseClass = (): string => {
+    if (pattern[pos] === "^") {
+      throw new Error("Negated classes are not supported");
+    }
+    let first: string | undefined;
+    while (pos < pattern.length && pattern[pos] !== "]") {
+      const ch = pattern[pos++];
+      first ??= ch === "\\" ? parseEscape(pattern[pos++]) : ch;
+      // Skip the end of a range like a-z, the start is a valid sample
+      if (pattern[pos] === "-" && pattern[pos + 1] !== "]" && pos + 1 < pattern.length) {
+        pos += pattern[pos + 1] === "\\" ? 3 : 2;
+      }
+    }
+    if (pattern[pos++] !== "]") {
+      throw new Error("Unclosed class");
+    }
+    return first ?? "";
+  };
+
+  const parseQuantifier = (): number => {
+    let count = 1;
+    const ch = pattern[pos];
+    if (ch === "*" || ch === "+" || ch === "?") {
+      pos++;
+    } else if (ch === "{") {
+      const match = /^\{(\d+)(,\d*)?\}/.exec(pattern.slice(pos));
+      if (!match) {
+        throw new Error("Invalid quantifier");
+      }
+      count = Number(match[1]);
+      pos += match[0].length;
+    }
+    // Lazy modifier
+    if (pattern[pos] === "?") {
+      pos++;
+    }
+    return count;
+  };
+
+  const parseAtom = (): string => {
+    const ch = pattern[pos++];
+    switch (ch) {
+      case "^":
+      case "$":
+        return "";
+      case ".":
+        return "a";
+      case "[":
+        return parseClass();
+      case "\\":
+        return parseEscape(pattern[pos++]);
+      case "(": {
+        if (pattern.startsWith("?:", pos)) {
+          pos += 2;
+        } else if (pattern[pos] === "?") {
+          throw new Error("Lookarounds are not supported");
+        }
+        const inner = parseAlternation();
+        if (pattern[pos++] !== ")") {
+          throw new Error("Unclosed group");
+        }
+        return inner;
+      }
+      default:
+        return ch;
+    }
+  };
+
+  const parseSequence = (): string => {
+    let result = "";
+    while (pos < pattern.length && pattern[pos] !== "|" && pattern[pos] !== ")") {
+      const atom = parseAtom();
+      result += atom.repeat(parseQuantifier());
+    }
+    return result;
+  };
+
+  // Use the first alternative, skipping the rest
+  function parseAlternation(): string {
+    const first = parseSequence();
+    while (pattern[pos] === "|") {
+      pos++;
+      parseSequence();
+    }
+    return first;
+  }
+
+  try {
+    const sample = parseAlternation();
+    return pos === pattern.length && new RegExp(pattern).test(sample) ? sample : undefined;
+  } catch {
+    return undefined;
+  }
+}
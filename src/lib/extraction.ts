@@ -0,0 +1,156 @@
+import { ExtractionRule, StoredSpec } from "../types/openapi";
+import { evaluateJsonPath } from "./json-path";
+import { getActiveEnvironment } from "./environments";
+import { getSessionVariables, getSpec, setSessionVariables, updateSpec } from "./storage";
+import type { RequestResult } from "./request-executor";
+import { getErrorMessage } from "./toast-utils";
+
+/**
+ * Key for an endpoint's extraction rules on its spec
+ */
+export function getEndpointKey(endpoint: { method: string; path: string }): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
+
+export function getEndpointExtractionRules(
+  spec: StoredSpec,
+  endpoint: { method: string; path: string },
+): ExtractionRule[] {
+  return spec.extractionRules?.[getEndpointKey(endpoint)] || [];
+}
+
+/**
+ * Replace an endpoint's extraction rules, returning the updated spec
+ */
+export async function saveEndpointExtractionRules(
+  specId: string,
+  endpoint: { method: string; path: string },
+  rules: ExtractionRule[],
+): Promise<StoredSpec | null> {
+  const spec = await getSpec(specId);
+  if (!spec) return null;
+
+  const extractionRules = { ...spec.extractionRules };
+  if (rules.length > 0) {
+    extractionRules[getEndpointKey(endpoint)] = rules;
+  } else {
+    delete extractionRules[getEndpointKey(endpoint)];
+  }
+  return updateSpec(specId, { extractionRules });
+}
+
+/**
+ * Variables for a request: the active environment's, overridden by ones extracted this session
+ */
+export async function getRequestVariables(spec: StoredSpec): Promise<Record<string, string>> {
+  return { ...getActiveEnvironment(spec)?.variables, ...(await getSessionVariables(spec.id)) };
+}
+
+/**
+ * Values extracted from a response, and why the rules that failed did, both keyed by variable
+ */
+export interface ExtractionResult {
+  values: Record<string, string>;
+  errors: Record<string, string>;
+}
+
+/**
+ * Pull the rules' values out of a response. Rules without a match are left out,
+ * JSON values that aren't strings are kept as JSON.
+ */
+export function extractValues(
+  rules: ExtractionRule[],
+  response: Pick<RequestResult, "headers" | "json">,
+): ExtractionResult {
+  const values: Record<string, string> = {};
+  const errors: Record<string, string> = {};
+  for (const rule of rules) {
+    if (rule.source === "header") {
+      const value = response.headers[rule.expression.toLowerCase()];
+      if (value !== undefined) values[rule.variable] = value;
+      continue;
+    }
+
+    if (response.json === undefined) continue;
+    // A broken rule shouldn't fail the request it runs on, or the other rules
+    try {
+      const [match] = evaluateJsonPath(response.json, rule.expression);
+      if (match !== undefined) {
+        values[rule.variable] = typeof match === "string" ? match : JSON.stringify(match);
+      }
+    } catch (error) {
+      errors[rule.variable] = getErrorMessage(error);
+    }
+  }
+  return { values, errors };
+}
+
+/**
+ * Run extraction rules on a response and store what they found.
+ * Environment rules fall back to the session when no environment is active.
+ */
+export async function applyExtractionRules(
+  specId: string,
+  rules: ExtractionRule[],
+  response: Pick<RequestResult, "headers" | "json">,
+): Promise<ExtractionResult> {
+  const extracted = extractValues(rules, response);
+  const { values } = extracted;
+  if (Object.keys(values).length === 0) {
+    return extracted;
+  }
+
+  const spec = await getSpec(specId);
+  const environment = spec && getActiveEnvironment(spec);
+  const session = await getSessionVariables(specId);
+  const environmentValues: Record<string, string> = {};
+
+  for (const rule of rules) {
+    const value = values[rule.variable];
+    if (value === undefined) continue;
+    if (rule.target === "environment" && environment) {
+      environmentValues[rule.variable] = value;
+      // Session values win over the environment's, don't let an old one hide the new value
+      delete session[rule.variable];
+    } else {
+      session[rule.variable] = value;
+    }
+  }
+
+  await setSessionVariables(specId, session);
+  if (spec && environment && Object.keys(environmentValues).length > 0) {
+    await updateSpec(specId, {
+      environments: spec.environments?.map((e) =>
+        e.id === environment.id ? { ...e, variables: { ...e.variables, ...environmentValues } } : e,
+      ),
+    });
+  }
+
+  return extracted;
+}
+
+/**
+ * Rules as "variable = $.json.path" or "variable = header:Name" lines, for editing in a text area
+ */
+export function formatRuleLines(rules: ExtractionRule[]): string {
+  return rules
+    .map((rule) => `${rule.variable} = ${rule.source === "header" ? `header:${rule.expression}` : rule.expression}`)
+    .join("\n");
+}
+
+export function parseRuleLines(text: string, target: ExtractionRule["target"]): ExtractionRule[] {
+  const rules: ExtractionRule[] = [];
+  for (const line of text.split("\n")) {
+    const index = line.indexOf("=");
+    if (index <= 0) continue;
+    const variable = line.slice(0, index).trim();
+    const expression = line.slice(index + 1).trim();
+    const header = /^header:\s*(.+)$/i.exec(expression);
+    rules.push(
+      header
+        ? { variable, source: "header", expression: header[1].trim(), target }
+        : { variable, source: "body", expression, target },
+    );
+  }
+  return rules;
+}
@@ -0,0 +1,196 @@
+import { readFile } from "fs/promises";
+import { basename } from "path";
+import { Parameter, ParsedEndpoint, Schema } from "../types/openapi";
+import { getPrimaryType, getRequestBodyContentType, resolveSchema } from "./openapi-parser";
+import { ShellArg } from "./shell-quote";
+
+export type FormValues = Record<string, string | string[]>;
+
+export interface FormBodyField {
+  name: string;
+  schema: Schema;
+  required: boolean;
+  /** "file" and "files" are picked from disk, "text" fields are typed in */
+  kind: "text" | "file" | "files";
+}
+
+/**
+ * Whether a content type is sent as form fields rather than a raw body
+ */
+export function isFormContentType(contentType: string | null | undefined): boolean {
+  return !!contentType && /^(multipart\/form-data|application\/x-www-form-urlencoded)/.test(contentType);
+}
+
+function isFileSchema(schema: Schema): boolean {
+  return getPrimaryType(schema) === "string" && (schema.format === "binary" || schema.format === "base64");
+}
+
+/**
+ * Flatten the form body schema of an endpoint into fields.
+ * Returns an empty list unless the preferred body content type is a form.
+ */
+export function getFormBodyFields(endpoint: ParsedEndpoint): FormBodyField[] {
+  const contentType = getRequestBodyContentType(endpoint);
+  const schema = contentType && isFormContentType(contentType) && endpoint.requestBody?.content?.[contentType]?.schema;
+  if (!schema) {
+    return [];
+  }
+
+  const resolved = resolveSchema(schema);
+  const required = new Set(resolved.required || []);
+
+  return Object.entries(resolved.properties || {})
+    .filter(([, propSchema]) => !propSchema.readOnly)
+    .map(([name, propSchema]) => {
+      const fieldSchema = resolveSchema(propSchema);
+      const kind = isFileSchema(fieldSchema)
+        ? "file"
+        : getPrimaryType(fieldSchema) === "array" && fieldSchema.items && isFileSchema(resolveSchema(fieldSchema.items))
+          ? "files"
+          : "text";
+      return { name, schema: fieldSchema, required: required.has(name), kind };
+    });
+}
+
+/**
+ * Present a text form field as a parameter, so it gets the same typed input and validation.
+ * Form fields are flat string values just like query parameters.
+ */
+export function toFormParameter(field: FormBodyField): Parameter {
+  return { name: field.name, in: "query", required: field.required, schema: field.schema };
+}
+
+function getTextValues(field: FormBodyField, value: string): string[] {
+  // Arrays are entered comma-separated and sent as repeated fields
+  return getPrimaryType(field.schema) === "array" ? value.split(",").map((item) => item.trim()) : [value];
+}
+
+function getFilePaths(value: string | string[] | undefined): string[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
+/**
+ * Build a fetch body from form values. Files are read from disk for multipart bodies.
+ */
+export async function buildFormBody(
+  contentType: string,
+  fields: FormBodyField[],
+  values: FormValues,
+): Promise<FormData | URLSearchParams> {
+  if (contentType.startsWith("application/x-www-form-urlencoded")) {
+    const params = new URLSearchParams();
+    for (const field of fields) {
+      const value = values[field.name];
+      if (field.kind === "text" && typeof value === "string" && value) {
+        getTextValues(field, value).forEach((item) => params.append(field.name, item));
+      }
+    }
+    return params;
+  }
+
+  const formData = new FormData();
+  for (const field of fields) {
+    const value = values[field.name];
+    if (field.kind === "text") {
+      if (typeof value === "string" && value) {
+        getTextValues(field, value).forEach((item) => formData.append(field.name, item));
+      }
+      continue;
+    }
+
+    for (const filePath of getFilePaths(value)) {
+      const content = await readFile(filePath);
+      formData.append(field.name, new Blob([new Uint8Array(content)]), basename(filePath));
+    }
+  }
+  return formData;
+}
+
+/**
+ * Describe form values as name=value lines, with @path for files like curl does
+ */
+export function formatFormBody(fields: FormBodyField[], values: FormValues): string {
+  return fields
+    .flatMap((field) => {
+      const value = values[field.name];
+      if (field.kind !== "text") {
+        return getFilePaths(value).map((filePath) => `${field.name}=@${filePath}`);
+      }
+      return typeof value === "string" && value
+        ? getTextValues(field, value).map((item) => `${field.name}=${item}`)
+        : [];
+    })
+    .join("\n");
+}
+
+/**
+ * A form field as it appears in a copyable snippet, with placeholders for missing values
+ */
+export interface FormSnippetField {
+  name: string;
+  value: string;
+  /** The value is a path to upload */
+  file: boolean;
+}
+
+/**
+ * Flatten form values into snippet fields. Fields without values become {name} and <name> placeholders
+ * when required, or when no values were given at all. URL-encoded forms can't carry files, those are left out.
+ */
+export function getFormSnippetFields(
+  contentType: string,
+  fields: FormBodyField[],
+  values?: FormValues,
+): FormSnippetField[] {
+  const multipart = !contentType.startsWith("application/x-www-form-urlencoded");
+  const result: FormSnippetField[] = [];
+
+  for (const field of fields) {
+    const value = values?.[field.name];
+
+    if (field.kind !== "text") {
+      if (!multipart) continue;
+      const filePaths = getFilePaths(value);
+      if (filePaths.length === 0 && (field.required || !values)) {
+        filePaths.push(`<${field.name}>`);
+      }
+      filePaths.forEach((filePath) => result.push({ name: field.name, value: filePath, file: true }));
+      continue;
+    }
+
+    const items = typeof value === "string" && value ? getTextValues(field, value) : [];
+    if (items.length === 0 && (field.required || !values)) {
+      items.push(`{${field.name}}`);
+    }
+    items.forEach((item) => result.push({ name: field.name, value: item, file: false }));
+  }
+
+  return result;
+}
+
+/**
+ * cURL arguments for a form body: -F for multipart files, --form-string for other multipart fields,
+ * --data-urlencode for URL-encoded forms
+ * @param getValueFile - File to read a text value from instead, for values the shell can't pass
+ */
+export function getFormCurlArgs(
+  multipart: boolean,
+  fields: FormSnippetField[],
+  getValueFile?: (field: FormSnippetField) => string | undefined,
+): ShellArg[] {
+  return fields.map((field) => {
+    if (field.file) {
+      return ["-F", `${field.name}=@${field.value}`];
+    }
+    const valueFile = getValueFile?.(field);
+    if (valueFile) {
+      return multipart ? ["-F", `${field.name}=<${valueFile}`] : ["--data-urlencode", `${field.name}@${valueFile}`];
+    }
+    const arg = `${field.name}=${field.value}`;
+    if (!multipart) {
+      return ["--data-urlencode", arg];
+    }
+    // -F reads values starting with @ or < from files and parses ;type= suffixes, --form-string sends them as is
+    return ["--form-string", arg];
+  });
+}
@@ -0,0 +1,28 @@
+import { ResponseMetrics } from "../types/openapi";
+
+/**
+ * Milliseconds as "850 ms" or "1.25 s"
+ */
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+/**
+ * A byte count as "512 B", "1.5 KB" or "2.3 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Short summary for toasts, e.g. "230 ms · 1.5 KB · 1 redirect"
+ */
+export function formatMetricsSummary(metrics: ResponseMetrics): string {
+  const parts = [formatDuration(metrics.duration), formatBytes(metrics.size)];
+  if (metrics.redirects > 0) {
+    parts.push(`${metrics.redirects} ${metrics.redirects === 1 ? "redirect" : "redirects"}`);
+  }
+  return parts.join(" · ");
+}
@@ -0,0 +1,284 @@
+import { readFile } from "fs/promises";
+import { ClientRequest, IncomingMessage, OutgoingHttpHeaders, request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { isIP, Socket } from "net";
+import { Readable } from "stream";
+import { connect as tlsConnect, ConnectionOptions, rootCertificates } from "tls";
+import { ConnectionSettings } from "../types/openapi";
+import { ShellArg } from "./shell-quote";
+
+const MAX_REDIRECTS = 20;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Whether any TLS or proxy setting is configured
+ */
+export function hasConnectionSettings(connection?: ConnectionSettings): connection is ConnectionSettings {
+  return (
+    !!connection &&
+    !!(connection.caPath || connection.certPath || connection.keyPath || connection.insecure || connection.proxyUrl)
+  );
+}
+
+/**
+ * A response with what it took to get it
+ */
+export interface FetchDetails {
+  response: Response;
+  /** Redirects followed on the way to the response */
+  redirects: number;
+  /** When the first request was sent, after loading TLS files, in epoch milliseconds */
+  startedAt: number;
+  /** When the final response's headers arrived, in epoch milliseconds */
+  headersAt: number;
+}
+
+/**
+ * fetch() that honours a spec's TLS and proxy settings. Without settings this is plain fetch,
+ * otherwise the request goes through Node's http and https modules, which expose those options.
+ */
+export async function fetchWithConnection(
+  url: string,
+  init: RequestInit = {},
+  connection?: ConnectionSettings,
+): Promise<Response> {
+  if (!hasConnectionSettings(connection)) {
+    return fetch(url, init);
+  }
+  return (await fetchWithDetails(url, init, connection)).response;
+}
+
+/**
+ * Like fetchWithConnection, but follows redirects itself to count them and times the response
+ */
+export async function fetchWithDetails(
+  url: string,
+  init: RequestInit = {},
+  connection?: ConnectionSettings,
+): Promise<FetchDetails> {
+  const tls = hasConnectionSettings(connection) ? await loadTlsOptions(connection) : undefined;
+  const proxy = connection?.proxyUrl ? new URL(connection.proxyUrl) : undefined;
+  const signal = init.signal ?? undefined;
+  // Request encodes bodies like FormData and fills in their Content-Type
+  let request = new Request(url, init);
+  const startedAt = Date.now();
+
+  for (let redirects = 0; ; redirects++) {
+    const body = request.body ? Buffer.from(await request.arrayBuffer()) : undefined;
+    const res = tls
+      ? toResponse(await send(request, body, tls, proxy, signal), request.method)
+      : await fetch(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body,
+          redirect: "manual",
+          signal,
+        });
+    const location = res.headers.get("location");
+
+    if (!location || !REDIRECT_STATUSES.includes(res.status) || init.redirect === "manual") {
+      return { response: res, redirects, startedAt, headersAt: Date.now() };
+    }
+    await res.body?.cancel();
+    if (init.redirect === "error") {
+      throw new Error(`Unexpected redirect to ${location}`);
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("Too many redirects");
+    }
+
+    // Like fetch: 307 and 308 repeat the request, the others switch to GET without a body
+    const next = new URL(location, request.url);
+    const keepBody = res.status === 307 || res.status === 308;
+    const headers = new Headers(request.headers);
+    if (!keepBody) {
+      headers.delete("content-type");
+    }
+    if (next.origin !== new URL(request.url).origin) {
+      headers.delete("authorization");
+      headers.delete("cookie");
+    }
+    request = new Request(next, {
+      method: keepBody || request.method === "HEAD" ? request.method : "GET",
+      headers,
+      body: keepBody ? body : undefined,
+      signal,
+    });
+  }
+}
+
+async function readPem(path: string, label: string): Promise<Buffer> {
+  try {
+    return await readFile(path);
+  } catch {
+    throw new Error(`Can't read ${label} at ${path}`);
+  }
+}
+
+async function loadTlsOptions(connection: ConnectionSettings): Promise<ConnectionOptions> {
+  const [ca, cert, key] = await Promise.all([
+    connection.caPath ? readPem(connection.caPath, "CA bundle") : undefined,
+    connection.certPath ? readPem(connection.certPath, "client certificate") : undefined,
+    connection.keyPath ? readPem(connection.keyPath, "client key") : undefined,
+  ]);
+
+  return {
+    // Setting ca replaces the default roots, keep them so public hosts still verify
+    ca: ca ? [...rootCertificates, ca.toString()] : undefined,
+    cert,
+    // Like curl, a combined PEM file can hold both the certificate and the key
+    key: key || cert,
+    rejectUnauthorized: !connection.insecure,
+  };
+}
+
+function getProxyHeaders(proxy: URL): OutgoingHttpHeaders {
+  if (!proxy.username) {
+    return {};
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { "proxy-authorization": `Basic ${Buffer.from(credentials).toString("base64")}` };
+}
+
+function getPort(url: URL): number {
+  return Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+}
+
+/**
+ * TLS options for the connection to an https: proxy. The client certificate is for the target, not the proxy.
+ */
+function getProxyTlsOptions(proxy: URL, tls: ConnectionOptions): ConnectionOptions {
+  return proxy.protocol === "https:" ? { ca: tls.ca, rejectUnauthorized: tls.rejectUnauthorized } : {};
+}
+
+/**
+ * Ask an HTTP proxy to open a raw TCP tunnel to the target with CONNECT
+ */
+function openTunnel(proxy: URL, target: URL, tls: ConnectionOptions, signal?: AbortSignal): Promise<Socket> {
+  const authority = `${target.hostname}:${getPort(target)}`;
+
+  return new Promise((resolve, reject) => {
+    const req = (proxy.protocol === "https:" ? httpsRequest : httpRequest)({
+      host: proxy.hostname,
+      port: getPort(proxy),
+      method: "CONNECT",
+      path: authority,
+      headers: { host: authority, ...getProxyHeaders(proxy) },
+      signal,
+      ...getProxyTlsOptions(proxy, tls),
+    });
+    req.once("connect", (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`Proxy refused the connection: ${res.statusCode} ${res.statusMessage}`));
+      }
+    });
+    req.once("error", reject);
+    req.end();
+  });
+}
+
+async function send(
+  request: Request,
+  body: Buffer | undefined,
+  tls: ConnectionOptions,
+  proxy: URL | undefined,
+  signal: AbortSignal | undefined,
+): Promise<IncomingMessage> {
+  const target = new URL(request.url);
+  const headers: OutgoingHttpHeaders = {};
+  request.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  if (body) {
+    headers["content-length"] = body.length;
+  }
+
+  let req: ClientRequest;
+  if (target.protocol === "https:") {
+    const hostname = target.hostname.replace(/^\[|\]$/g, "");
+    const socket = proxy ? await openTunnel(proxy, target, tls, signal) : undefined;
+    req = httpsRequest(target, {
+      method: request.method,
+      headers,
+      signal,
+      // Without an agent the request uses this connection, with the TLS options applied
+      createConnection: () =>
+        tlsConnect({
+          ...tls,
+          host: hostname,
+          port: getPort(target),
+          socket,
+          servername: isIP(hostname) ? undefined : hostname,
+        }),
+    });
+  } else if (proxy) {
+    // Plain HTTP goes to the proxy with the full URL as the request target
+    req = (proxy.protocol === "https:" ? httpsRequest : httpRequest)({
+      host: proxy.hostname,
+      port: getPort(proxy),
+      method: request.method,
+      path: target.toString(),
+      headers: { ...headers, host: target.host, ...getProxyHeaders(proxy) },
+      signal,
+      ...getProxyTlsOptions(proxy, tls),
+    });
+  } else {
+    req = httpRequest(target, { method: request.method, headers, signal });
+  }
+
+  return new Promise((resolve, reject) => {
+    req.once("response", resolve);
+    req.once("error", reject);
+    // Node reports 101 Switching Protocols as an upgrade, never as a response
+    req.once("upgrade", (res, socket) => {
+      socket.destroy();
+      reject(new Error(`Unsupported final response: ${res.statusCode} ${res.statusMessage || ""}`.trim()));
+    });
+    req.end(body);
+  });
+}
+
+function toResponse(res: IncomingMessage, method: string): Response {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(res.headers)) {
+    for (const item of Array.isArray(value) ? value : value !== undefined ? [value] : []) {
+      headers.append(name, item);
+    }
+  }
+
+  const status = res.statusCode || 502;
+  // Response only accepts 200-599, a 1xx like 101 Switching Protocols can't be shown as a response
+  if (status < 200) {
+    res.destroy();
+    throw new Error(`Unsupported final response: ${status} ${res.statusMessage || ""}`.trim());
+  }
+  const hasBody = method !== "HEAD" && !NULL_BODY_STATUSES.includes(status);
+  if (!hasBody) {
+    res.resume();
+  }
+  return new Response(hasBody ? (Readable.toWeb(res) as ReadableStream) : null, {
+    status,
+    statusText: res.statusMessage,
+    headers,
+  });
+}
+
+/**
+ * cURL flags for the connection settings
+ */
+export function getConnectionCurlArgs(connection?: ConnectionSettings): ShellArg[] {
+  if (!connection) {
+    return [];
+  }
+  const args: ShellArg[] = [];
+  if (connection.caPath) args.push(["--cacert", connection.caPath]);
+  if (connection.certPath) args.push(["--cert", connection.certPath]);
+  if (connection.keyPath) args.push(["--key", connection.keyPath]);
+  if (connection.insecure) args.push(["-k"]);
+  if (connection.proxyUrl) args.push(["-x", connection.proxyUrl]);
+  return args;
+}
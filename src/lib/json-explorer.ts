@@ -0,0 +1,304 @@
+import { appendJsonPath, JsonPathMatch, queryJsonPath } from "./json-path";
+
+/**
+ * A filter result. Values computed by jq functions like keys or length have no path.
+ */
+export interface JsonQueryResult {
+  path?: string;
+  value: unknown;
+}
+
+const COMPARISONS = ["==", "!=", ">=", "<=", ">", "<"] as const;
+type Comparison = (typeof COMPARISONS)[number];
+
+/**
+ * Split on | outside of quotes and parentheses
+ */
+function splitPipes(expression: string): string[] {
+  const stages: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = "";
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === "\\") {
+        current += char + (expression[++i] ?? "");
+        continue;
+      }
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "|" && depth === 0) {
+      stages.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  stages.push(current.trim());
+  return stages;
+}
+
+/**
+ * Turn a jq path like .items[].name or .["display name"][0] into JSONPath
+ */
+function jqPathToJsonPath(path: string): string {
+  if (path === ".") return "$";
+  if (path.startsWith("..")) {
+    throw new Error("Recursive descent isn't supported in jq filters, use $..key instead");
+  }
+
+  let jsonPath = "$";
+  let i = 0;
+  while (i < path.length) {
+    const rest = path.slice(i);
+
+    const identifier = /^\.([A-Za-z_]\w*)/.exec(rest);
+    const quoted = /^\.?(?:\[\s*)?"((?:[^"\\]|\\.)*)"(?:\s*\])?/.exec(rest);
+    const index = /^\.?\[\s*(-?\d+)\s*\]/.exec(rest);
+    const iterate = /^\.?\[\s*\]/.exec(rest);
+
+    if (identifier) {
+      jsonPath = appendJsonPath(jsonPath, identifier[1]);
+      i += identifier[0].length;
+    } else if (quoted) {
+      jsonPath = appendJsonPath(jsonPath, quoted[1].replace(/\\(.)/g, "$1"));
+      i += quoted[0].length;
+    } else if (index) {
+      jsonPath = appendJsonPath(jsonPath, Number(index[1]));
+      i += index[0].length;
+    } else if (iterate) {
+      jsonPath += "[*]";
+      i += iterate[0].length;
+    } else {
+      throw new Error(`Invalid jq path at "${rest}"`);
+    }
+  }
+  return jsonPath;
+}
+
+/**
+ * Follow a jq path from each result, keeping track of where the values came from
+ */
+function followJqPath(results: JsonQueryResult[], path: string): JsonQueryResult[] {
+  const jsonPath = jqPathToJsonPath(path);
+  return results.flatMap((result): JsonQueryResult[] => {
+    // Computed values have no path, their matches don't either
+    const matches: JsonPathMatch[] = queryJsonPath(result.value, jsonPath, result.path ?? "$");
+    return result.path ? matches : matches.map(({ value }) => ({ value }));
+  });
+}
+
+function compare(left: unknown, operator: Comparison, right: unknown): boolean {
+  switch (operator) {
+    case "==":
+      return JSON.stringify(left) === JSON.stringify(right);
+    case "!=":
+      return JSON.stringify(left) !== JSON.stringify(right);
+    default: {
+      if (typeof left !== typeof right || (typeof left !== "number" && typeof left !== "string")) return false;
+      const [a, b] = [left as number | string, right as number | string];
+      if (operator === ">") return a > b;
+      if (operator === "<") return a < b;
+      if (operator === ">=") return a >= b;
+      return a <= b;
+    }
+  }
+}
+
+/**
+ * The first comparison outside of quotes, so keys like ."a<b" stay part of the path
+ */
+function findComparison(condition: string): { operator: Comparison; index: number } | undefined {
+  let quote: string | undefined;
+  for (let i = 0; i < condition.length; i++) {
+    const char = condition[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else {
+      // Two-character operators come first, so >= wins over >
+      const operator = COMPARISONS.find((op) => condition.startsWith(op, i));
+      if (operator) return { operator, index: i };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * select(.path OP literal), or select(.path) to keep results where the path is truthy
+ */
+function parseSelect(condition: string): (value: unknown) => boolean {
+  const comparison = findComparison(condition);
+  const operator = comparison?.operator;
+  const [path, literal] = comparison
+    ? [
+        condition.slice(0, comparison.index).trim(),
+        condition.slice(comparison.index + comparison.operator.length).trim(),
+      ]
+    : [condition.trim(), undefined];
+
+  let expected: unknown;
+  if (literal !== undefined) {
+    try {
+      expected = JSON.parse(literal);
+    } catch {
+      throw new Error(`Expected a number, "string", true, false or null, not ${literal}`);
+    }
+  }
+
+  const jsonPath = jqPathToJsonPath(path);
+  return (value) => {
+    const [match] = queryJsonPath(value, jsonPath);
+    if (!operator) return match !== undefined && match.value !== null && match.value !== false;
+    return match !== undefined && compare(match.value, operator, expected);
+  };
+}
+
+function applyJqStage(results: JsonQueryResult[], stage: string): JsonQueryResult[] {
+  if (stage.startsWith(".")) {
+    return followJqPath(results, stage);
+  }
+
+  const select = /^select\((.*)\)$/.exec(stage);
+  if (select) {
+    const matches = parseSelect(select[1]);
+    return results.filter((result) => matches(result.value));
+  }
+
+  switch (stage) {
+    case "keys":
+      return results.map(({ value }) => ({
+        value: Array.isArray(value) ? value.map((_, index) => index) : Object.keys(value ?? {}).sort(),
+      }));
+    case "length":
+      return results.map(({ value }) => ({
+        value:
+          typeof value === "string" || Array.isArray(value)
+            ? value.length
+            : value && typeof value === "object"
+              ? Object.keys(value).length
+              : 0,
+      }));
+    case "first":
+      return followJqPath(results, ".[0]");
+    case "last":
+      return followJqPath(results, ".[-1]");
+    default:
+      throw new Error(`Unsupported jq filter "${stage}", try a path, select(...), keys, length, first or last`);
+  }
+}
+
+/**
+ * Filter a JSON value with a JSONPath expression ($.items[*].id) or a jq-like pipeline
+ * (.items[] | select(.active == true) | .id). Result paths are JSONPath, relative to rootPath.
+ */
+export function queryJson(root: unknown, expression: string, rootPath = "$"): JsonQueryResult[] {
+  const trimmed = expression.trim();
+  if (trimmed.startsWith("$")) {
+    return queryJsonPath(root, trimmed, rootPath);
+  }
+
+  let results: JsonQueryResult[] = [{ path: rootPath, value: root }];
+  for (const stage of splitPipes(trimmed)) {
+    if (!stage) throw new Error("Empty filter between pipes");
+    results = applyJqStage(results, stage);
+  }
+  return results;
+}
+
+/**
+ * Child keys or indexes of an object or array, with their paths
+ */
+export function getJsonChildren(value: unknown, path: string): (JsonQueryResult & { key: string })[] {
+  if (Array.isArray(value)) {
+    return value.map((child, index) => ({ key: `[${index}]`, path: appendJsonPath(path, index), value: child }));
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).map(([key, child]) => ({ key, path: appendJsonPath(path, key), value: child }));
+  }
+  return [];
+}
+
+export function isJsonContainer(value: unknown): value is object {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Short description of a value, e.g. "Array · 30 items" or "string"
+ */
+export function describeJsonValue(value: unknown): string {
+  if (Array.isArray(value)) return `Array · ${value.length} ${value.length === 1 ? "item" : "items"}`;
+  if (value === null) return "null";
+  if (typeof value === "object") {
+    const count = Object.keys(value).length;
+    return `Object · ${count} ${count === 1 ? "key" : "keys"}`;
+  }
+  return typeof value;
+}
+
+/**
+ * A value for copying: strings as they are, everything else as JSON
+ */
+export function formatJsonValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * True for a non-empty array of objects, which reads better as a table
+ */
+export function isJsonTable(value: unknown): value is Record<string, unknown>[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((row) => row !== null && typeof row === "object" && !Array.isArray(row))
+  );
+}
+
+/**
+ * Every key used by the rows, in the order they first appear
+ */
+export function getTableColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach((key) => columns.add(key));
+  }
+  return [...columns];
+}
+
+function formatTableCell(value: unknown, maxLength: number): string {
+  if (value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const truncated = text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+  return truncated.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Rows as a markdown table, limited to maxRows so large arrays stay quick to render
+ */
+export function formatMarkdownTable(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  maxRows = 100,
+  maxCellLength = 60,
+): string {
+  const header = `| # | ${columns.map((column) => formatTableCell(column, maxCellLength)).join(" | ")} |`;
+  const divider = `| --: | ${columns.map(() => "---").join(" | ")} |`;
+  const body = rows
+    .slice(0, maxRows)
+    .map(
+      (row, index) =>
+        `| ${index} | ${columns.map((column) => formatTableCell(row[column], maxCellLength)).join(" | ")} |`,
+    );
+
+  const table = [header, divider, ...body].join("\n");
+  return rows.length > maxRows ? `${table}\n\nShowing the first ${maxRows} of ${rows.length} rows.` : table;
+}
@@ -0,0 +1,146 @@
+import { getErrorMessage } from "./toast-utils";
+
+type PathSegment =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "descendant"; key: string };
+
+/**
+ * Split a JSONPath expression into segments, e.g. $.items[0]['display name'] or $..id
+ */
+function parseJsonPath(path: string): PathSegment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+  while (i < trimmed.length) {
+    const rest = trimmed.slice(i);
+
+    const descendant = /^\.\.([\w$-]+)/.exec(rest);
+    const dotted = /^\.([\w$-]+|\*)/.exec(rest);
+    const bracket = /^\[\s*(?:(-?\d+)|(\*)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/.exec(rest);
+
+    if (descendant) {
+      segments.push({ kind: "descendant", key: descendant[1] });
+      i += descendant[0].length;
+    } else if (dotted) {
+      segments.push(dotted[1] === "*" ? { kind: "wildcard" } : { kind: "key", key: dotted[1] });
+      i += dotted[0].length;
+    } else if (bracket) {
+      const [, index, wildcard, single, double] = bracket;
+      if (index !== undefined) {
+        segments.push({ kind: "index", index: Number(index) });
+      } else if (wildcard) {
+        segments.push({ kind: "wildcard" });
+      } else {
+        segments.push({ kind: "key", key: (single ?? double).replace(/\\(.)/g, "$1") });
+      }
+      i += bracket[0].length;
+    } else {
+      throw new Error(`Invalid JSONPath at "${rest}"`);
+    }
+  }
+  return segments;
+}
+
+/**
+ * A value found by a JSONPath expression, with the normalized path that leads to it
+ */
+export interface JsonPathMatch {
+  path: string;
+  value: unknown;
+}
+
+/**
+ * Extend a JSONPath with a key or array index, e.g. $.items[0]['display name']
+ */
+export function appendJsonPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[\w$-]+$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/[\\']/g, "\\$&")}']`;
+}
+
+function childMatches(match: JsonPathMatch): JsonPathMatch[] {
+  if (Array.isArray(match.value)) {
+    return match.value.map((value, index) => ({ path: appendJsonPath(match.path, index), value }));
+  }
+  if (match.value && typeof match.value === "object") {
+    return Object.entries(match.value).map(([key, value]) => ({ path: appendJsonPath(match.path, key), value }));
+  }
+  return [];
+}
+
+function findDescendants(match: JsonPathMatch, key: string, found: JsonPathMatch[]) {
+  const { value } = match;
+  if (value && typeof value === "object" && !Array.isArray(value) && key in value) {
+    found.push({ path: appendJsonPath(match.path, key), value: (value as Record<string, unknown>)[key] });
+  }
+  for (const child of childMatches(match)) {
+    findDescendants(child, key, found);
+  }
+}
+
+/**
+ * Evaluate a JSONPath expression against a parsed JSON value, returning every match and its path.
+ * Supports .key, ['key'], [index] (negative from the end), * wildcards and ..key descendants.
+ * Paths start from rootPath, for querying inside a value that was itself found by a path.
+ */
+export function queryJsonPath(root: unknown, path: string, rootPath = "$"): JsonPathMatch[] {
+  let current: JsonPathMatch[] = [{ path: rootPath, value: root }];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: JsonPathMatch[] = [];
+    for (const match of current) {
+      const { value } = match;
+      switch (segment.kind) {
+        case "key":
+          if (value && typeof value === "object" && !Array.isArray(value) && segment.key in value) {
+            next.push({
+              path: appendJsonPath(match.path, segment.key),
+              value: (value as Record<string, unknown>)[segment.key],
+            });
+          }
+          break;
+        case "index":
+          if (Array.isArray(value)) {
+            const index = segment.index < 0 ? value.length + segment.index : segment.index;
+            if (index >= 0 && index < value.length) {
+              next.push({ path: appendJsonPath(match.path, index), value: value[index] });
+            }
+          }
+          break;
+        case "wildcard":
+          next.push(...childMatches(match));
+          break;
+        case "descendant":
+          findDescendants(match, segment.key, next);
+          break;
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Evaluate a JSONPath expression against a parsed JSON value, returning every matching value
+ */
+export function evaluateJsonPath(root: unknown, path: string): unknown[] {
+  return queryJsonPath(root, path).map((match) => match.value);
+}
+
+/**
+ * Check a JSONPath expression, for form validation
+ */
+export function validateJsonPath(path: string): string | undefined {
+  try {
+    parseJsonPath(path);
+    return undefined;
+  } catch (error) {
+    return getErrorMessage(error);
+  }
+}
@@ -0,0 +1,270 @@
+import { open } from "@raycast/api";
+import { createHash, randomBytes } from "crypto";
+import { createServer } from "http";
+import { OpenAPISpec } from "../types/openapi";
+import { getStoredTokenForSpec, getTokenById, OAuthSettings, StoredToken, updateToken } from "./secure-storage";
+
+// Refresh a little early so tokens don't expire mid-request
+const EXPIRY_MARGIN_MS = 60 * 1000;
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const DEFAULT_REDIRECT_URI = "http://127.0.0.1:8765/callback";
+
+/**
+ * An OAuth flow declared by one of the spec's security schemes
+ */
+export interface SpecOAuthFlow {
+  schemeName: string;
+  flow: OAuthSettings["flow"];
+  tokenUrl: string;
+  authorizationUrl?: string;
+  scopes: Record<string, string>;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+/**
+ * List the supported OAuth flows declared in a spec's security schemes
+ */
+export function getSpecOAuthFlows(spec: OpenAPISpec): SpecOAuthFlow[] {
+  const flows: SpecOAuthFlow[] = [];
+
+  for (const [schemeName, scheme] of Object.entries(spec.components?.securitySchemes || {})) {
+    if (scheme.type !== "oauth2" || !scheme.flows) continue;
+
+    const { clientCredentials, authorizationCode } = scheme.flows;
+    if (clientCredentials?.tokenUrl) {
+      flows.push({
+        schemeName,
+        flow: "clientCredentials",
+        tokenUrl: clientCredentials.tokenUrl,
+        scopes: clientCredentials.scopes || {},
+      });
+    }
+    if (authorizationCode?.tokenUrl && authorizationCode.authorizationUrl) {
+      flows.push({
+        schemeName,
+        flow: "authorizationCode",
+        tokenUrl: authorizationCode.tokenUrl,
+        authorizationUrl: authorizationCode.authorizationUrl,
+        scopes: authorizationCode.scopes || {},
+      });
+    }
+  }
+
+  return flows;
+}
+
+/**
+ * Run the configured flow and return fresh tokens.
+ * The authorization code flow opens the browser and waits for the redirect.
+ */
+export async function requestOAuthTokens(settings: OAuthSettings): Promise<OAuthTokens> {
+  if (settings.flow === "clientCredentials") {
+    return requestToken(settings, {
+      grant_type: "client_credentials",
+      ...(settings.scopes ? { scope: settings.scopes } : {}),
+    });
+  }
+  return authorizeWithPkce(settings);
+}
+
+/**
+ * Exchange a refresh token for new tokens. Servers may omit a new refresh token, keep the old one then.
+ */
+export async function refreshOAuthTokens(settings: OAuthSettings, refreshToken: string): Promise<OAuthTokens> {
+  const tokens = await requestToken(settings, {
+    grant_type: "refresh_token",
+    refresh_token: refreshToken,
+  });
+  return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+}
+
+/**
+ * Authorization code flow with PKCE, receiving the code on a localhost listener
+ */
+async function authorizeWithPkce(settings: OAuthSettings): Promise<OAuthTokens> {
+  if (!settings.authorizationUrl) {
+    throw new Error("Authorization URL is required for the authorization code flow");
+  }
+
+  const redirectUri = settings.redirectUri || DEFAULT_REDIRECT_URI;
+  const verifier = base64Url(randomBytes(32));
+  const challenge = base64Url(createHash("sha256").update(verifier).digest());
+  const state = base64Url(randomBytes(16));
+
+  const authorizationUrl = new URL(settings.authorizationUrl);
+  authorizationUrl.searchParams.set("response_type", "code");
+  authorizationUrl.searchParams.set("client_id", settings.clientId);
+  authorizationUrl.searchParams.set("redirect_uri", redirectUri);
+  authorizationUrl.searchParams.set("state", state);
+  authorizationUrl.searchParams.set("code_challenge", challenge);
+  authorizationUrl.searchParams.set("code_challenge_method", "S256");
+  if (settings.scopes) {
+    authorizationUrl.searchParams.set("scope", settings.scopes);
+  }
+
+  // Listen before opening the browser so a fast redirect isn't missed
+  const code = waitForAuthorizationCode(redirectUri, state);
+  // Awaited below, this only stops a timeout from going unhandled if opening the browser throws
+  code.catch(() => undefined);
+  await open(authorizationUrl.toString());
+
+  return requestToken(settings, {
+    grant_type: "authorization_code",
+    code: await code,
+    redirect_uri: redirectUri,
+    code_verifier: verifier,
+  });
+}
+
+/**
+ * Start a one-shot HTTP listener on the redirect URI and resolve with the authorization code
+ */
+export function waitForAuthorizationCode(redirectUri: string, state: string): Promise<string> {
+  const redirect = new URL(redirectUri);
+  if (redirect.protocol !== "http:" || !["127.0.0.1", "localhost", "[::1]"].includes(redirect.hostname)) {
+    throw new Error("Redirect URI must be an http://localhost or http://127.0.0.1 address");
+  }
+
+  return new Promise((resolve, reject) => {
+    const server = createServer((req, res) => {
+      const url = new URL(req.url || "/", redirectUri);
+      if (url.pathname !== redirect.pathname) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const error = url.searchParams.get("error");
+      const code = url.searchParams.get("code");
+      const succeeded = !error && !!code && url.searchParams.get("state") === state;
+
+      res.writeHead(succeeded ? 200 : 400, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(
+        succeeded
+          ? "<p>Authorization complete. You can close this window and return to Raycast.</p>"
+          : "<p>Authorization failed. You can close this window.</p>",
+      );
+
+      finish(() => {
+        if (error) {
+          reject(new Error(`Authorization failed: ${url.searchParams.get("error_description") || error}`));
+        } else if (url.searchParams.get("state") !== state) {
+          reject(new Error("Authorization failed: state mismatch"));
+        } else if (!code) {
+          reject(new Error("Authorization failed: no code in the redirect"));
+        } else {
+          resolve(code);
+        }
+      });
+    });
+
+    const timeout = setTimeout(
+      () => finish(() => reject(new Error("Timed out waiting for authorization"))),
+      AUTHORIZATION_TIMEOUT_MS,
+    );
+
+    function finish(settle: () => void) {
+      clearTimeout(timeout);
+      server.close();
+      settle();
+    }
+
+    server.on("error", (error) => finish(() => reject(error)));
+    server.listen(Number(redirect.port) || 80, redirect.hostname.replace(/^\[|\]$/g, ""));
+  });
+}
+
+/**
+ * POST to the token endpoint. Confidential clients authenticate with HTTP basic,
+ * public clients send their client_id in the body.
+ */
+async function requestToken(settings: OAuthSettings, params: Record<string, string>): Promise<OAuthTokens> {
+  const body = new URLSearchParams(params);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  if (settings.clientSecret) {
+    const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+    headers["Authorization"] = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", settings.clientId);
+  }
+
+  const res = await fetch(settings.tokenUrl, { method: "POST", headers, body });
+  const text = await res.text();
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Some older servers answer with a form-encoded body
+    data = Object.fromEntries(new URLSearchParams(text));
+  }
+
+  if (!res.ok || data.error || typeof data.access_token !== "string") {
+    const reason = data.error_description || data.error || `${res.status} ${res.statusText}`;
+    throw new Error(`Token request failed: ${reason}`);
+  }
+
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    refreshToken: typeof data.refresh_token === "string" ? data.refresh_token : undefined,
+    expiresAt: expiresIn > 0 ? new Date(Date.now() + expiresIn * 1000).toISOString() : undefined,
+  };
+}
+
+/**
+ * Whether an OAuth access token is expired or about to expire
+ */
+export function isTokenExpiring(settings: OAuthSettings): boolean {
+  return !!settings.expiresAt && new Date(settings.expiresAt).getTime() - EXPIRY_MARGIN_MS <= Date.now();
+}
+
+/**
+ * Refresh a stored OAuth token if it is about to expire and save the result.
+ * Client credentials tokens are simply requested again, authorization code tokens need a refresh token.
+ */
+export async function ensureFreshToken(stored: StoredToken): Promise<StoredToken> {
+  const settings = stored.auth?.oauth;
+  if (stored.auth?.type !== "oauth2" || !settings || !isTokenExpiring(settings)) {
+    return stored;
+  }
+
+  let tokens: OAuthTokens;
+  if (settings.refreshToken) {
+    tokens = await refreshOAuthTokens(settings, settings.refreshToken);
+  } else if (settings.flow === "clientCredentials") {
+    tokens = await requestOAuthTokens(settings);
+  } else {
+    throw new Error(`The access token for "${stored.name}" expired, authorize again from the token settings`);
+  }
+
+  const updated = await updateToken(stored.id, {
+    token: tokens.accessToken,
+    auth: {
+      ...stored.auth,
+      oauth: { ...settings, refreshToken: tokens.refreshToken, expiresAt: tokens.expiresAt },
+    },
+  });
+  return updated || stored;
+}
+
+/**
+ * Get the token for a spec, or the environment's token when given, refreshing OAuth tokens first when needed
+ */
+export async function getFreshTokenForSpec(specId: string, tokenId?: string): Promise<string | undefined> {
+  const stored = (tokenId && (await getTokenById(tokenId))) || (await getStoredTokenForSpec(specId));
+  return stored ? (await ensureFreshToken(stored)).token : undefined;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
@@ -1,7 +1,43 @@
-import { OpenAPISpec, ParsedEndpoint, HttpMethod, PathItem, Operation, Parameter, Schema } from "../types/openapi";
+import {
+  OpenAPISpec,
+  ParsedEndpoint,
+  HttpMethod,
+  PathItem,
+  Operation,
+  Parameter,
+  Schema,
+  RequestBody,
+  Response,
+  ParsedResponse,
+  MediaType,
+  Header,
+  SecurityScheme,
+  SecurityRequirement,
+  EndpointAuth,
+  Server,
+  ServerSelection,
+  StoredSpec,
+  OAuthFlows,
+  Swagger2Spec,
+  Swagger2Operation,
+  Swagger2Parameter,
+  Swagger2Response,
+  Swagger2Header,
+  Swagger2Validations,
+  Swagger2SecurityScheme,
+} from "../types/openapi";
 import SwaggerParser from "@apidevtools/swagger-parser";
 
-const HTTP_METHODS: Array<keyof PathItem> = ["get", "post", "put", "patch", "delete", "options", "head"];
+const HTTP_METHODS: Array<Lowercase<HttpMethod>> = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "options",
+  "head",
+  "trace",
+];
 
 /**
  * Parse and validate a JSON or YAML string as an OpenAPI spec.
@@ -12,18 +48,18 @@ export async function parseAndValidateSpec(content: string): Promise<OpenAPISpec
     // SwaggerParser can parse from a string by using a data URI or by parsing the object
     // First try to parse as JSON/YAML, then dereference
     const parsed = await SwaggerParser.parse(content);
-    const spec = (await SwaggerParser.dereference(parsed)) as OpenAPISpec;
+    const spec = (await SwaggerParser.dereference(parsed)) as OpenAPISpec | Swagger2Spec;
 
-    // Validate it looks like an OpenAPI spec
-    if (!spec.paths) {
-      throw new Error("Invalid OpenAPI specification: missing paths field");
+    // Validate it looks like an OpenAPI spec (3.1 specs may only define webhooks)
+    if (!spec.paths && !("webhooks" in spec && spec.webhooks)) {
+      throw new Error("Invalid OpenAPI specification: missing paths or webhooks field");
     }
 
-    if (!spec.openapi && !spec.swagger) {
+    if (!("openapi" in spec && spec.openapi) && !spec.swagger) {
       throw new Error("Invalid OpenAPI specification: missing openapi or swagger version field");
     }
 
-    return spec;
+    return normalizeSpec(spec);
   } catch (error) {
     if (error instanceof Error && error.message.includes("Invalid OpenAPI")) {
       throw error;
@@ -32,6 +68,281 @@ export async function parseAndValidateSpec(content: string): Promise<OpenAPISpec
   }
 }
 
+/**
+ * Normalize a dereferenced spec into the OpenAPI 3 shape used throughout the extension.
+ * Swagger 2.0 documents are converted; OpenAPI 3 documents are returned unchanged.
+ */
+export function normalizeSpec(spec: OpenAPISpec | Swagger2Spec): OpenAPISpec {
+  if (!isSwagger2Spec(spec)) {
+    return spec;
+  }
+
+  const consumes = spec.consumes?.length ? spec.consumes : ["application/json"];
+  const produces = spec.produces?.length ? spec.produces : ["application/json"];
+  const paths: Record<string, PathItem> = {};
+
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    const converted: PathItem = {};
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation) {
+        converted[method] = convertSwagger2Operation(operation, pathItem.parameters || [], consumes, produces);
+      }
+    }
+    paths[path] = converted;
+  }
+
+  const securitySchemes = spec.securityDefinitions
+    ? Object.fromEntries(
+        Object.entries(spec.securityDefinitions).map(([name, scheme]) => [name, convertSwagger2SecurityScheme(scheme)]),
+      )
+    : undefined;
+
+  return {
+    openapi: "3.0.3",
+    info: spec.info,
+    servers: getSwagger2Servers(spec),
+    paths,
+    components: {
+      schemas: spec.definitions,
+      securitySchemes,
+    },
+    security: spec.security,
+  };
+}
+
+function isSwagger2Spec(spec: OpenAPISpec | Swagger2Spec): spec is Swagger2Spec {
+  return !("openapi" in spec && spec.openapi) && Boolean(spec.swagger?.startsWith("2"));
+}
+
+/**
+ * Build servers from host, basePath and schemes.
+ * Without a host the base path is kept as a relative server URL.
+ */
+function getSwagger2Servers(spec: Swagger2Spec): OpenAPISpec["servers"] {
+  const basePath = (spec.basePath || "").replace(/\/+$/, "");
+
+  if (!spec.host) {
+    return basePath ? [{ url: basePath }] : undefined;
+  }
+
+  // Prefer https when the spec allows several schemes
+  const schemes = spec.schemes?.length ? [...spec.schemes] : ["https"];
+  schemes.sort((a, b) => Number(b === "https") - Number(a === "https"));
+
+  return schemes.map((scheme) => ({ url: `${scheme}://${spec.host}${basePath}` }));
+}
+
+/**
+ * Convert a Swagger 2 operation, moving body and formData parameters into a requestBody.
+ * Path-level parameters are merged in, with operation parameters overriding by name and location.
+ */
+function convertSwagger2Operation(
+  operation: Swagger2Operation,
+  pathParameters: Swagger2Parameter[],
+  globalConsumes: string[],
+  globalProduces: string[],
+): Operation {
+  const consumes = operation.consumes?.length ? operation.consumes : globalConsumes;
+  const produces = operation.produces?.length ? operation.produces : globalProduces;
+
+  const parameters = mergeParameters(pathParameters, operation.parameters);
+
+  const bodyParam = parameters.find((p) => p.in === "body");
+  const formParams = parameters.filter((p) => p.in === "formData");
+
+  let requestBody: RequestBody | undefined;
+  if (bodyParam) {
+    requestBody = {
+      description: bodyParam.description,
+      required: bodyParam.required,
+      content: Object.fromEntries(consumes.map((contentType) => [contentType, { schema: bodyParam.schema }])),
+    };
+  } else if (formParams.length > 0) {
+    requestBody = convertSwagger2FormData(formParams, consumes);
+  }
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    description: operation.description,
+    tags: operation.tags,
+    security: operation.security,
+    parameters: parameters
+      .filter((p) => p.in !== "body" && p.in !== "formData")
+      .map((p) => ({
+        name: p.name,
+        in: p.in as Parameter["in"],
+        description: p.description,
+        required: p.required,
+        schema: getSwagger2ParameterSchema(p),
+        ...getSwagger2ParameterStyle(p),
+      })),
+    requestBody,
+    responses: operation.responses ? convertSwagger2Responses(operation.responses, produces) : undefined,
+  };
+}
+
+const FORM_CONTENT_TYPES = ["multipart/form-data", "application/x-www-form-urlencoded"];
+
+/**
+ * Collect formData parameters into a single object schema under a form content type
+ */
+function convertSwagger2FormData(params: Swagger2Parameter[], consumes: string[]): RequestBody {
+  const schema: Schema = { type: "object", properties: {}, required: [] };
+
+  for (const param of params) {
+    schema.properties![param.name] = { ...getSwagger2ParameterSchema(param), description: param.description };
+    if (param.required) {
+      schema.required!.push(param.name);
+    }
+  }
+
+  let contentTypes = consumes.filter((contentType) => FORM_CONTENT_TYPES.includes(contentType));
+  if (contentTypes.length === 0) {
+    // File uploads are only possible with multipart
+    const hasFile = params.some((p) => p.type === "file");
+    contentTypes = [hasFile ? "multipart/form-data" : "application/x-www-form-urlencoded"];
+  }
+
+  return {
+    required: params.some((p) => p.required),
+    content: Object.fromEntries(contentTypes.map((contentType) => [contentType, { schema }])),
+  };
+}
+
+/**
+ * Build a schema from the inline type fields of a non-body Swagger 2 parameter
+ */
+function getSwagger2ParameterSchema(param: Swagger2Parameter): Schema {
+  if (param.type === "file") {
+    return { type: "string", format: "binary" };
+  }
+
+  return {
+    type: param.type,
+    format: param.format,
+    items: param.items,
+    enum: param.enum,
+    default: param.default,
+    ...getSwagger2Validations(param),
+  };
+}
+
+/**
+ * Copy the inline validation keywords of a Swagger 2 parameter or header onto its schema
+ */
+function getSwagger2Validations(source: Swagger2Validations): Swagger2Validations {
+  return {
+    minimum: source.minimum,
+    maximum: source.maximum,
+    exclusiveMinimum: source.exclusiveMinimum,
+    exclusiveMaximum: source.exclusiveMaximum,
+    minLength: source.minLength,
+    maxLength: source.maxLength,
+    pattern: source.pattern,
+    multipleOf: source.multipleOf,
+    minItems: source.minItems,
+    maxItems: source.maxItems,
+    uniqueItems: source.uniqueItems,
+  };
+}
+
+/**
+ * Map a Swagger 2 collectionFormat to the equivalent style and explode.
+ * Swagger 2 arrays default to csv, unlike form style which explodes by default.
+ */
+function getSwagger2ParameterStyle(param: Swagger2Parameter): Pick<Parameter, "style" | "explode"> {
+  if (param.type !== "array") {
+    return {};
+  }
+
+  const inQuery = param.in === "query";
+  switch (param.collectionFormat) {
+    case "multi":
+      return { style: "form", explode: true };
+    case "ssv":
+      return inQuery ? { style: "spaceDelimited", explode: false } : {};
+    case "pipes":
+      return inQuery ? { style: "pipeDelimited", explode: false } : {};
+    // tsv has no OpenAPI 3 equivalent, comma-separated is the closest
+    default:
+      return { style: inQuery ? "form" : "simple", explode: false };
+  }
+}
+
+function convertSwagger2Responses(
+  responses: Record<string, Swagger2Response>,
+  produces: string[],
+): Record<string, Response> {
+  return Object.fromEntries(
+    Object.entries(responses).map(([status, response]) => [
+      status,
+      {
+        description: response.description,
+        headers: response.headers ? convertSwagger2Headers(response.headers) : undefined,
+        content: response.schema
+          ? Object.fromEntries(
+              produces.map((contentType) => [
+                contentType,
+                { schema: response.schema, example: response.examples?.[contentType] },
+              ]),
+            )
+          : undefined,
+      },
+    ]),
+  );
+}
+
+function convertSwagger2Headers(headers: Record<string, Swagger2Header>): Record<string, Header> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, header]) => [
+      name,
+      {
+        description: header.description,
+        schema: {
+          type: header.type,
+          format: header.format,
+          items: header.items,
+          enum: header.enum,
+          default: header.default,
+          ...getSwagger2Validations(header),
+        },
+      },
+    ]),
+  );
+}
+
+const SWAGGER2_OAUTH_FLOWS: Record<NonNullable<Swagger2SecurityScheme["flow"]>, keyof OAuthFlows> = {
+  implicit: "implicit",
+  password: "password",
+  application: "clientCredentials",
+  accessCode: "authorizationCode",
+};
+
+function convertSwagger2SecurityScheme(scheme: Swagger2SecurityScheme): SecurityScheme {
+  switch (scheme.type) {
+    case "basic":
+      return { type: "http", scheme: "basic", description: scheme.description };
+    case "apiKey":
+      return { type: "apiKey", name: scheme.name, in: scheme.in, description: scheme.description };
+    case "oauth2":
+      return {
+        type: "oauth2",
+        description: scheme.description,
+        flows: scheme.flow
+          ? {
+              [SWAGGER2_OAUTH_FLOWS[scheme.flow]]: {
+                authorizationUrl: scheme.authorizationUrl,
+                tokenUrl: scheme.tokenUrl,
+                scopes: scheme.scopes || {},
+              },
+            }
+          : {},
+      };
+  }
+}
+
 /**
  * Parse an OpenAPI spec and extract all endpoints.
  * Assumes the spec has already been dereferenced (no $refs).
@@ -39,15 +350,24 @@ export async function parseAndValidateSpec(content: string): Promise<OpenAPISpec
 export function parseEndpoints(spec: OpenAPISpec): ParsedEndpoint[] {
   const endpoints: ParsedEndpoint[] = [];
 
-  if (!spec.paths) {
-    return endpoints;
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation) {
+        endpoints.push(parseOperation(path, method.toUpperCase() as HttpMethod, operation, pathItem, spec));
+      }
+    }
   }
 
-  for (const [path, pathItem] of Object.entries(spec.paths)) {
+  // 3.1 webhooks are keyed by name, 3.1 specs may define only webhooks
+  for (const [name, pathItem] of Object.entries(spec.webhooks || {})) {
     for (const method of HTTP_METHODS) {
       const operation = pathItem[method];
       if (operation) {
-        endpoints.push(parseOperation(path, method.toUpperCase() as HttpMethod, operation));
+        endpoints.push({
+          ...parseOperation(name, method.toUpperCase() as HttpMethod, operation, pathItem, spec),
+          webhook: true,
+        });
       }
     }
   }
@@ -61,31 +381,255 @@ export function parseEndpoints(spec: OpenAPISpec): ParsedEndpoint[] {
 }
 
 /**
- * Parse a single operation into a ParsedEndpoint
+ * Parse a single operation into a ParsedEndpoint.
+ * Path-level parameters and servers apply unless the operation overrides them,
+ * and global security applies unless the operation declares its own (even an empty list).
  */
-function parseOperation(path: string, method: HttpMethod, operation: Operation): ParsedEndpoint {
+function parseOperation(
+  path: string,
+  method: HttpMethod,
+  operation: Operation,
+  pathItem: PathItem,
+  spec: OpenAPISpec,
+): ParsedEndpoint {
+  const servers = operation.servers?.length ? operation.servers : pathItem.servers;
+  const security = operation.security ?? spec.security ?? [];
+
   return {
     path,
     method,
     operationId: operation.operationId,
-    summary: operation.summary,
-    description: operation.description,
+    summary: operation.summary || pathItem.summary,
+    description: operation.description || pathItem.description,
     tags: operation.tags || [],
-    parameters: operation.parameters || [],
+    parameters: mergeParameters(pathItem.parameters, operation.parameters),
     requestBody: operation.requestBody,
-    hasAuth: Boolean(operation.security && operation.security.length > 0),
+    servers: servers?.length ? servers : undefined,
+    responses: parseResponses(operation.responses),
+    hasAuth: security.some((requirement) => Object.keys(requirement).length > 0),
+    auth: resolveEndpointAuth(security, spec.components?.securitySchemes),
+  };
+}
+
+/**
+ * Pick the scheme a single token should be sent with.
+ * Uses the first security requirement whose schemes are all supported.
+ */
+export function resolveEndpointAuth(
+  security: SecurityRequirement[],
+  schemes: Record<string, SecurityScheme> | undefined,
+): EndpointAuth | undefined {
+  for (const requirement of security) {
+    const names = Object.keys(requirement);
+    const resolved = names.map((name) => (schemes?.[name] ? toEndpointAuth(name, schemes[name]) : undefined));
+    if (names.length > 0 && resolved.every(Boolean)) {
+      return resolved[0];
+    }
+  }
+  return undefined;
+}
+
+function toEndpointAuth(schemeName: string, scheme: SecurityScheme): EndpointAuth | undefined {
+  switch (scheme.type) {
+    case "apiKey":
+      return scheme.name ? { schemeName, type: "api-key", in: scheme.in || "header", name: scheme.name } : undefined;
+    case "http": {
+      const httpScheme = scheme.scheme?.toLowerCase();
+      if (httpScheme === "basic") return { schemeName, type: "basic" };
+      if (httpScheme === "bearer") return { schemeName, type: "bearer" };
+      return undefined;
+    }
+    // OAuth access tokens are sent as bearer tokens
+    case "oauth2":
+    case "openIdConnect":
+      return { schemeName, type: "bearer" };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse operation responses, sorted by status code with ranges and "default" last
+ */
+function parseResponses(responses: Record<string, Response> | undefined): ParsedResponse[] {
+  if (!responses) {
+    return [];
+  }
+
+  const order = (status: string) => {
+    if (/^\d{3}$/.test(status)) return Number(status);
+    if (/^\dXX$/i.test(status)) return Number(status[0]) * 100 + 99;
+    return 1000;
+  };
+
+  return Object.entries(responses)
+    .map(([status, response]) => ({
+      status,
+      description: response.description,
+      headers: response.headers,
+      content: response.content,
+    }))
+    .sort((a, b) => order(a.status) - order(b.status));
+}
+
+/**
+ * Merge path-level parameters with operation parameters.
+ * An operation parameter overrides a path-level one with the same name and location.
+ */
+function mergeParameters<T extends { name: string; in: string }>(
+  pathParameters: T[] = [],
+  operationParameters: T[] = [],
+): T[] {
+  const overridden = new Set(operationParameters.map((p) => `${p.in}:${p.name}`));
+  return [...pathParameters.filter((p) => !overridden.has(`${p.in}:${p.name}`)), ...operationParameters];
+}
+
+/**
+ * Get the base URL from an OpenAPI spec.
+ * Returns undefined when the spec has no absolute server URL, e.g. a pasted spec with relative servers.
+ */
+export function getBaseUrl(spec: OpenAPISpec): string | undefined {
+  if (!spec.servers || spec.servers.length === 0) {
+    return undefined;
+  }
+  const url = resolveServerUrl(spec.servers[0]);
+  return isAbsoluteUrl(url) ? url : undefined;
+}
+
+/**
+ * Substitute {variable} placeholders in a server URL.
+ * Variables without a value fall back to the default declared in the spec.
+ */
+export function resolveServerUrl(server: Server, variables: Record<string, string> = {}): string {
+  const url = server.url.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    return variables[name] || server.variables?.[name]?.default || match;
+  });
+  // Paths are appended to the base URL, so drop trailing slashes
+  return url.replace(/\/+$/, "");
+}
+
+function isAbsoluteUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Resolve a possibly relative URL against the spec's source URL.
+ * Done by hand rather than with `new URL` so {variable} placeholders aren't percent-encoded.
+ */
+function resolveRelativeUrl(url: string, sourceUrl: string): string {
+  // Already absolute, or the scheme itself is a variable
+  if (/^([a-z][a-z\d+.-]*:|\{)/i.test(url)) {
+    return url;
+  }
+
+  const source = new URL(sourceUrl);
+  if (url.startsWith("//")) {
+    return `${source.protocol}${url}`;
+  }
+  if (url.startsWith("/")) {
+    return `${source.origin}${url}`;
+  }
+  return `${new URL(".", source).href}${url.replace(/^\.\//, "")}`;
+}
+
+/**
+ * Resolve relative server URLs against the URL the spec was fetched from.
+ * A spec without servers gets the default "/" server, as the OpenAPI specification describes.
+ * Specs that weren't fetched over HTTP are returned unchanged.
+ */
+export function resolveServerUrls(spec: OpenAPISpec, sourceUrl: string): OpenAPISpec {
+  if (!isAbsoluteUrl(sourceUrl)) {
+    return spec;
+  }
+
+  const resolve = (servers: Server[]) =>
+    servers.map((server) => ({ ...server, url: resolveRelativeUrl(server.url, sourceUrl) }));
+
+  // Path and operation servers are relative to the spec URL as well
+  const paths: Record<string, PathItem> = {};
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    const resolved: PathItem = { ...pathItem };
+    if (pathItem.servers) {
+      resolved.servers = resolve(pathItem.servers);
+    }
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation?.servers) {
+        resolved[method] = { ...operation, servers: resolve(operation.servers) };
+      }
+    }
+    paths[path] = resolved;
+  }
+
+  return {
+    ...spec,
+    servers: resolve(spec.servers && spec.servers.length > 0 ? spec.servers : [{ url: "/" }]),
+    paths: spec.paths ? paths : undefined,
   };
 }
 
 /**
- * Get the base URL from an OpenAPI spec
+ * Get the default values of a server's variables
+ */
+export function getDefaultServerVariables(server: Server): Record<string, string> {
+  return Object.fromEntries(Object.entries(server.variables || {}).map(([name, variable]) => [name, variable.default]));
+}
+
+/**
+ * Get the effective server selection, falling back to the first server with default variables.
+ * Returns undefined when the spec declares no servers.
+ */
+export function getServerSelection(servers: Server[], selection?: ServerSelection): ServerSelection | undefined {
+  const server = servers.find((s) => s.url === selection?.url) || servers[0];
+  if (!server) {
+    return undefined;
+  }
+
+  const variables = getDefaultServerVariables(server);
+  if (selection?.url === server.url) {
+    Object.assign(variables, selection.variables);
+  }
+
+  return { url: server.url, variables };
+}
+
+/**
+ * Get the base URL for a server selection.
+ * Returns undefined when the selected server is unknown or its URL is relative.
+ */
+export function getSelectionBaseUrl(servers: Server[], selection?: ServerSelection): string | undefined {
+  const server = servers.find((s) => s.url === selection?.url);
+  if (!server || !selection) {
+    return undefined;
+  }
+  const url = resolveServerUrl(server, selection.variables);
+  return isAbsoluteUrl(url) ? url : undefined;
+}
+
+/**
+ * Get the base URL for an endpoint, preferring its own path or operation servers
  */
-export function getBaseUrl(spec: OpenAPISpec): string {
-  if (spec.servers && spec.servers.length > 0) {
-    return spec.servers[0].url;
+export function getEndpointBaseUrl(endpoint: ParsedEndpoint, storedSpec: StoredSpec, spec: OpenAPISpec | null): string {
+  if (endpoint.servers) {
+    const url = resolveServerUrl(endpoint.servers[0]);
+    if (isAbsoluteUrl(url)) {
+      return url;
+    }
   }
-  // Default fallback
-  return "https://api.example.com";
+  return getSpecBaseUrl(storedSpec, spec);
+}
+
+/**
+ * Get the base URL for a stored spec, applying the server the user selected.
+ * Falls back to an empty base URL so requests show the bare path rather than a made-up host.
+ */
+export function getSpecBaseUrl(storedSpec: StoredSpec, spec: OpenAPISpec | null): string {
+  return (
+    getSelectionBaseUrl(spec?.servers || [], storedSpec.server) ||
+    storedSpec.baseUrl ||
+    (spec && getBaseUrl(spec)) ||
+    ""
+  );
 }
 
 /**
@@ -95,7 +639,7 @@ export function groupEndpointsByTag(endpoints: ParsedEndpoint[]): Map<string, Pa
   const grouped = new Map<string, ParsedEndpoint[]>();
 
   for (const endpoint of endpoints) {
-    const tags = endpoint.tags.length > 0 ? endpoint.tags : ["Untagged"];
+    const tags = endpoint.tags.length > 0 ? endpoint.tags : [endpoint.webhook ? "Webhooks" : "Untagged"];
 
     for (const tag of tags) {
       const existing = grouped.get(tag) || [];
@@ -144,16 +688,87 @@ export interface BodyParameter {
   children?: BodyParameter[];
 }
 
+/**
+ * Get the non-null types of a schema.
+ * OpenAPI 3.1 allows `type` to be a list, e.g. ["string", "null"].
+ */
+export function getSchemaTypes(schema: Schema): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return types.filter((t) => t !== "null");
+}
+
+/**
+ * Get the first non-null type of a schema
+ */
+export function getPrimaryType(schema: Schema): string | undefined {
+  return getSchemaTypes(schema)[0];
+}
+
+/**
+ * Check whether a schema only allows null
+ */
+function isNullSchema(schema: Schema): boolean {
+  if (Array.isArray(schema.type)) {
+    return schema.type.length > 0 && schema.type.every((t) => t === "null");
+  }
+  return schema.type === "null";
+}
+
+/**
+ * Check whether a schema accepts null, via 3.0 `nullable`, a 3.1 type list
+ * or a `{ type: "null" }` option in oneOf/anyOf
+ */
+export function isNullable(schema: Schema): boolean {
+  if (schema.nullable) {
+    return true;
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes("null");
+  }
+  return [...(schema.oneOf || []), ...(schema.anyOf || [])].some(isNullSchema);
+}
+
+/**
+ * Get the oneOf/anyOf options of a schema, without the null option
+ */
+function getSchemaOptions(schema: Schema): Schema[] {
+  return (schema.oneOf || schema.anyOf || []).filter((s) => !isNullSchema(s));
+}
+
+/**
+ * Get the example of a schema, falling back to the first of the 3.1 `examples`
+ */
+export function getSchemaExample(schema: Schema): unknown {
+  return schema.example ?? schema.examples?.[0];
+}
+
+// Wrap union types in parentheses so they can be used as array items
+function wrapUnion(type: string): string {
+  return type.includes(" | ") ? `(${type})` : type;
+}
+
 /**
  * Get formatted type string for a schema
  */
-function getSchemaTypeString(schema: Schema): string {
+export function getSchemaTypeString(schema: Schema): string {
+  if (isNullSchema(schema)) {
+    return "null";
+  }
+  const typeString = getNonNullSchemaTypeString(schema);
+  return isNullable(schema) ? `${typeString} | null` : typeString;
+}
+
+function getNonNullSchemaTypeString(schema: Schema): string {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+
   // Handle allOf/oneOf/anyOf
   if (schema.allOf) {
     return "object";
   }
   if (schema.oneOf || schema.anyOf) {
-    const options = schema.oneOf || schema.anyOf || [];
+    const options = getSchemaOptions(schema);
     if (options.length > 0) {
       const types = options.slice(0, 2).map((s) => getSchemaTypeString(s));
       return types.join(" | ") + (options.length > 2 ? " | ..." : "");
@@ -161,12 +776,22 @@ function getSchemaTypeString(schema: Schema): string {
     return "mixed";
   }
 
-  if (schema.type === "array" && schema.items) {
+  const types = getSchemaTypes(schema);
+  if (types.length > 1) {
+    return types.join(" | ");
+  }
+  const type = types[0];
+
+  if (type === "array" && schema.prefixItems) {
+    return `[${schema.prefixItems.map((s) => getSchemaTypeString(s)).join(", ")}]`;
+  }
+
+  if (type === "array" && schema.items) {
     const itemType = getSchemaTypeString(schema.items);
-    return `${itemType}[]`;
+    return `${wrapUnion(itemType)}[]`;
   }
 
-  if (schema.type === "object") {
+  if (type === "object") {
     if (schema.properties) {
       const keys = Object.keys(schema.properties).slice(0, 3);
       const preview = keys.join(", ");
@@ -180,17 +805,17 @@ function getSchemaTypeString(schema: Schema): string {
   }
 
   if (schema.format) {
-    return `${schema.type || "string"}(${schema.format})`;
+    return `${type || "string"}(${schema.format})`;
   }
 
-  return schema.type || "object";
+  return type || "object";
 }
 
 /**
  * Resolve a schema by merging allOf/oneOf/anyOf and following $ref patterns.
  * Returns a flattened schema with properties.
  */
-function resolveSchema(schema: Schema): Schema {
+export function resolveSchema(schema: Schema): Schema {
   // If schema has allOf, merge all schemas together
   if (schema.allOf && schema.allOf.length > 0) {
     const merged: Schema = { type: "object", properties: {}, required: [] };
@@ -209,12 +834,10 @@ function resolveSchema(schema: Schema): Schema {
     return merged;
   }
 
-  // If schema has oneOf/anyOf, use the first option as representative
-  if (schema.oneOf && schema.oneOf.length > 0) {
-    return resolveSchema(schema.oneOf[0]);
-  }
-  if (schema.anyOf && schema.anyOf.length > 0) {
-    return resolveSchema(schema.anyOf[0]);
+  // If schema has oneOf/anyOf, use the first non-null option as representative
+  const options = getSchemaOptions(schema);
+  if (options.length > 0) {
+    return resolveSchema(options[0]);
   }
 
   return schema;
@@ -240,18 +863,18 @@ function extractBodyParams(
       type: getSchemaTypeString(propSchema),
       required: requiredFields.includes(name),
       description: propSchema.description,
-      example: propSchema.example ?? propSchema.default,
+      example: getSchemaExample(propSchema) ?? propSchema.default,
     };
 
     // Handle nested object properties
-    if (resolved.type === "object" && resolved.properties) {
+    if (getPrimaryType(resolved) === "object" && resolved.properties) {
       param.children = extractBodyParams(resolved.properties, resolved.required || [], maxDepth, currentDepth + 1);
     }
 
     // Handle array of objects
-    if (resolved.type === "array" && resolved.items) {
+    if (getPrimaryType(resolved) === "array" && resolved.items) {
       const itemSchema = resolveSchema(resolved.items);
-      if (itemSchema.type === "object" && itemSchema.properties) {
+      if (getPrimaryType(itemSchema) === "object" && itemSchema.properties) {
         param.children = extractBodyParams(
           itemSchema.properties,
           itemSchema.required || [],
@@ -297,7 +920,7 @@ export function getBodyParams(endpoint: ParsedEndpoint): BodyParameter[] {
           type: getSchemaTypeString(schema),
           required: endpoint.requestBody.required || false,
           description: schema.description,
-          example: schema.example ?? mediaType.example,
+          example: getSchemaExample(schema) ?? mediaType.example,
         },
       ];
     }
@@ -314,11 +937,18 @@ export function getBodyParams(endpoint: ParsedEndpoint): BodyParameter[] {
  * Handles application/json, application/merge-patch+json, etc.
  */
 export function getRequestBodyContentType(endpoint: ParsedEndpoint): string | null {
-  if (!endpoint.requestBody?.content) {
+  return getPreferredContentType(endpoint.requestBody?.content);
+}
+
+/**
+ * Pick the JSON-like content type from a content map, falling back to the first one
+ */
+function getPreferredContentType(content: Record<string, MediaType> | undefined): string | null {
+  if (!content) {
     return null;
   }
 
-  const contentTypes = Object.keys(endpoint.requestBody.content);
+  const contentTypes = Object.keys(content);
 
   // Prefer these content types in order
   const preferredTypes = [
@@ -334,8 +964,55 @@ export function getRequestBodyContentType(endpoint: ParsedEndpoint): string | nu
     }
   }
 
+  // Then any other JSON media type, e.g. application/problem+json or application/vnd.api+json
+  const jsonType = contentTypes.find((contentType) => contentType.includes("json"));
+
   // Return first available content type if no preferred match
-  return contentTypes[0] || null;
+  return jsonType || contentTypes[0] || null;
+}
+
+/**
+ * Get the preferred content type of a response
+ */
+export function getResponseContentType(response: ParsedResponse): string | null {
+  return getPreferredContentType(response.content);
+}
+
+/**
+ * Get the example for a response, from the media type or its schema
+ */
+export function getResponseExample(response: ParsedResponse): unknown {
+  const contentType = getResponseContentType(response);
+  const mediaType = contentType ? response.content?.[contentType] : undefined;
+  if (!mediaType) {
+    return undefined;
+  }
+
+  return getMediaTypeExample(mediaType) ?? (mediaType.schema ? getSchemaExample(mediaType.schema) : undefined);
+}
+
+/**
+ * Get the example declared on a media type, or the first of its named examples
+ */
+export function getMediaTypeExample(mediaType: MediaType): unknown {
+  if (mediaType.example !== undefined) {
+    return mediaType.example;
+  }
+  return Object.values(mediaType.examples || {})[0]?.value;
+}
+
+/**
+ * Generate a TypeScript type for a response body, named after its status code
+ */
+export function generateResponseTypeScript(response: ParsedResponse): string | null {
+  const contentType = getResponseContentType(response);
+  const schema = contentType ? response.content?.[contentType]?.schema : undefined;
+  if (!schema) {
+    return null;
+  }
+
+  const suffix = response.status === "default" ? "Default" : response.status.toUpperCase();
+  return generateSchemaTypeScript(resolveSchema(schema), `Response${suffix}`);
 }
 
 /**
@@ -357,6 +1034,7 @@ export function getMethodColor(method: HttpMethod): string {
     DELETE: "#f93e3e",
     OPTIONS: "#0d5aa7",
     HEAD: "#9012fe",
+    TRACE: "#888888",
   };
   return colors[method] || "#666";
 }
@@ -385,12 +1063,24 @@ export function getRequestBodySchema(endpoint: ParsedEndpoint): Schema | null {
  * Map OpenAPI type to TypeScript type
  */
 function mapToTSType(schema: Schema): string {
+  if (isNullSchema(schema)) {
+    return "null";
+  }
+  const tsType = mapNonNullToTSType(schema);
+  return isNullable(schema) ? `${tsType} | null` : tsType;
+}
+
+function mapNonNullToTSType(schema: Schema): string {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+
   // Handle allOf/oneOf/anyOf
   if (schema.allOf) {
     return "object";
   }
   if (schema.oneOf || schema.anyOf) {
-    const options = schema.oneOf || schema.anyOf || [];
+    const options = getSchemaOptions(schema);
     if (options.length > 0) {
       const types = options.slice(0, 3).map((s) => mapToTSType(s));
       return types.join(" | ") + (options.length > 3 ? " | ..." : "");
@@ -402,12 +1092,22 @@ function mapToTSType(schema: Schema): string {
     return schema.enum.map((v) => (typeof v === "string" ? `"${v}"` : String(v))).join(" | ");
   }
 
-  if (schema.type === "array" && schema.items) {
+  const types = getSchemaTypes(schema);
+  if (types.length > 1) {
+    return types.map((type) => mapNonNullToTSType({ ...schema, type })).join(" | ");
+  }
+  const type = types[0];
+
+  if (type === "array" && schema.prefixItems) {
+    return `[${schema.prefixItems.map((s) => mapToTSType(s)).join(", ")}]`;
+  }
+
+  if (type === "array" && schema.items) {
     const itemType = mapToTSType(schema.items);
-    return `${itemType}[]`;
+    return `${wrapUnion(itemType)}[]`;
   }
 
-  if (schema.type === "object" || schema.properties) {
+  if (type === "object" || schema.properties) {
     return "object";
   }
 
@@ -417,10 +1117,9 @@ function mapToTSType(schema: Schema): string {
     number: "number",
     string: "string",
     boolean: "boolean",
-    null: "null",
   };
 
-  return typeMap[schema.type || ""] || "unknown";
+  return typeMap[type || ""] || "unknown";
 }
 
 /**
@@ -432,6 +1131,13 @@ export function generateRequestBodyTypeScript(endpoint: ParsedEndpoint): string
     return null;
   }
 
+  return generateSchemaTypeScript(schema, "RequestBody");
+}
+
+/**
+ * Generate a TypeScript interface or type alias for a resolved schema
+ */
+function generateSchemaTypeScript(schema: Schema, typeName: string): string {
   const formatProperty = (name: string, propSchema: Schema, required: boolean, indent: number): string => {
     const resolved = resolveSchema(propSchema);
     const indentStr = "  ".repeat(indent);
@@ -443,33 +1149,36 @@ export function generateRequestBodyTypeScript(endpoint: ParsedEndpoint): string
     }
 
     const optionalMark = required ? "" : "?";
+    // Resolving oneOf/anyOf drops a null option, so carry it over explicitly
+    const nullSuffix = isNullable(propSchema) ? " | null" : "";
+    const simpleType = isNullable(resolved) ? mapToTSType(resolved) : `${mapToTSType(resolved)}${nullSuffix}`;
 
     // Handle nested objects
-    if ((resolved.type === "object" || resolved.properties) && resolved.properties) {
+    if (resolved.properties) {
       lines.push(`${indentStr}${name}${optionalMark}: {`);
       const nestedRequired = resolved.required || [];
       for (const [propName, nested] of Object.entries(resolved.properties)) {
         lines.push(formatProperty(propName, nested, nestedRequired.includes(propName), indent + 1));
       }
-      lines.push(`${indentStr}};`);
+      lines.push(`${indentStr}}${nullSuffix};`);
     }
     // Handle arrays of objects
-    else if (resolved.type === "array" && resolved.items) {
+    else if (getPrimaryType(resolved) === "array" && resolved.items) {
       const itemSchema = resolveSchema(resolved.items);
-      if ((itemSchema.type === "object" || itemSchema.properties) && itemSchema.properties) {
+      if (itemSchema.properties) {
         lines.push(`${indentStr}${name}${optionalMark}: {`);
         const nestedRequired = itemSchema.required || [];
         for (const [propName, nested] of Object.entries(itemSchema.properties)) {
           lines.push(formatProperty(propName, nested, nestedRequired.includes(propName), indent + 1));
         }
-        lines.push(`${indentStr}}[];`);
+        lines.push(`${indentStr}}[]${nullSuffix};`);
       } else {
-        lines.push(`${indentStr}${name}${optionalMark}: ${mapToTSType(resolved)};`);
+        lines.push(`${indentStr}${name}${optionalMark}: ${simpleType};`);
       }
     }
     // Simple types
     else {
-      lines.push(`${indentStr}${name}${optionalMark}: ${mapToTSType(resolved)};`);
+      lines.push(`${indentStr}${name}${optionalMark}: ${simpleType};`);
     }
 
     return lines.join("\n");
@@ -477,18 +1186,18 @@ export function generateRequestBodyTypeScript(endpoint: ParsedEndpoint): string
 
   // Handle non-object schemas (e.g., array at root)
   if (!schema.properties) {
-    if (schema.type === "array" && schema.items) {
+    if (getPrimaryType(schema) === "array" && schema.items) {
       const itemSchema = resolveSchema(schema.items);
       if (itemSchema.properties) {
         const requiredFields = itemSchema.required || [];
         const props = Object.entries(itemSchema.properties)
           .map(([name, prop]) => formatProperty(name, prop, requiredFields.includes(name), 1))
           .join("\n");
-        return `type RequestBody = {\n${props}\n}[];`;
+        return `type ${typeName} = {\n${props}\n}[];`;
       }
-      return `type RequestBody = ${mapToTSType(schema.items)}[];`;
+      return `type ${typeName} = ${mapToTSType(schema.items)}[];`;
     }
-    return `type RequestBody = ${mapToTSType(schema)};`;
+    return `type ${typeName} = ${mapToTSType(schema)};`;
   }
 
   const requiredFields = schema.required || [];
@@ -496,5 +1205,5 @@ export function generateRequestBodyTypeScript(endpoint: ParsedEndpoint): string
     .map(([name, prop]) => formatProperty(name, prop, requiredFields.includes(name), 1))
     .join("\n");
 
-  return `interface RequestBody {\n${props}\n}`;
+  return `interface ${typeName} {\n${props}\n}`;
 }
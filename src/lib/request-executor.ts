@@ -0,0 +1,229 @@
+import { ParsedEndpoint, ResponseFile, ResponseMetrics, ServerSentEvent } from "../types/openapi";
+import type { CurlOptions } from "./curl-generator";
+import { getHeaderParams, getRequestBodyContentType } from "./openapi-parser";
+import { addRequestToHistory, maskSensitiveHeaders } from "./storage";
+import { buildFormBody, formatFormBody, getFormBodyFields } from "./form-body";
+import { appendQueryParams, buildRequestUrl, serializeHeaderParameter } from "./url-builder";
+import { applyAuth } from "./auth";
+import { fetchWithDetails } from "./http-client";
+import { getRequestSigner, SignableRequest } from "./signers";
+import { substituteValues, substituteVariables } from "./environments";
+import { EventStream, formatEvents, isEventStreamContentType, readEventStream } from "./event-stream";
+import { getResponseFileName, isBinaryContentType, saveResponseFile } from "./response-files";
+import { formatBytes } from "./format";
+
+/**
+ * What came back from an executed request, as shown in the response view
+ */
+export interface RequestResult {
+  /** URL with API keys sent in the query masked */
+  url: string;
+  ok: boolean;
+  status: number;
+  statusText: string;
+  contentType: string;
+  /** Response headers, lowercased */
+  headers: Record<string, string>;
+  body: string;
+  /** Parsed body for JSON responses */
+  json?: unknown;
+  metrics: ResponseMetrics;
+  /** Where a binary body was saved, body then describes the file */
+  file?: ResponseFile;
+  /** Events of a text/event-stream response */
+  events?: ServerSentEvent[];
+}
+
+/**
+ * Send a request for an endpoint with the given values and save it to history.
+ * authToken must already be fresh, {{variables}} are filled in here.
+ * Event stream responses are passed to stream as they arrive, resolving once the stream ends.
+ */
+export async function executeEndpointRequest(
+  endpoint: ParsedEndpoint,
+  options: CurlOptions,
+  source: { specId: string; specName: string },
+  stream?: EventStream,
+): Promise<RequestResult> {
+  const { baseUrl, authToken: token, variables } = options;
+  const paramValues = substituteValues(options.paramValues || {}, variables);
+  const formValues = substituteValues(options.formValues || {}, variables);
+  const body = substituteVariables(options.bodyJson?.trim() || "", variables);
+
+  const hasBody = endpoint.requestBody && ["POST", "PUT", "PATCH"].includes(endpoint.method);
+  const formFields = hasBody ? getFormBodyFields(endpoint) : [];
+  const isFormBody = formFields.length > 0;
+
+  // Extra headers go first so the auth and declared header parameters take precedence
+  const headers: Record<string, string> = substituteValues(options.extraHeaders || {}, variables);
+
+  // Add auth header, cookie or query parameter for the endpoint's security scheme
+  const auth = token ? applyAuth(options, token) : { headers: {}, query: {} };
+  Object.assign(headers, auth.headers);
+  const requestUrl = appendQueryParams(
+    buildRequestUrl(baseUrl, endpoint, paramValues),
+    (options.extraQuery || []).map(([name, value]): [string, string] => [name, substituteVariables(value, variables)]),
+  );
+  const url = appendQueryParams(requestUrl, auth.query);
+  // Keep API keys sent in the query out of history and the response view
+  const displayUrl = appendQueryParams(
+    requestUrl,
+    Object.fromEntries(Object.keys(auth.query).map((name) => [name, "****"])),
+    false,
+  );
+
+  // Add custom header parameters
+  for (const param of getHeaderParams(endpoint)) {
+    const value = paramValues[param.name];
+    if (value) {
+      headers[param.name] = serializeHeaderParameter(param, value);
+    }
+  }
+
+  // Add Content-Type for body requests (use spec-defined content type or default to application/json)
+  // Form bodies get theirs from fetch, multipart needs the generated boundary
+  if (hasBody && !isFormBody) {
+    const contentType = getRequestBodyContentType(endpoint) || "application/json";
+    headers["Content-Type"] = contentType;
+  }
+
+  // Stopping the stream, e.g. by leaving its view, also cancels a request that is still connecting
+  const fetchOptions: RequestInit = {
+    method: endpoint.method,
+    headers,
+    signal: stream?.signal,
+  };
+
+  if (hasBody && isFormBody) {
+    fetchOptions.body = await buildFormBody(getRequestBodyContentType(endpoint)!, formFields, formValues);
+  } else if (hasBody && body) {
+    fetchOptions.body = body;
+  }
+
+  // Sign the final request. Multipart bodies are encoded up front so the signature covers their exact bytes.
+  const signer = token ? getRequestSigner(options.signing, token) : undefined;
+  if (signer && fetchOptions.body instanceof FormData) {
+    const encoded = new Response(fetchOptions.body);
+    headers["Content-Type"] = encoded.headers.get("content-type") || "multipart/form-data";
+    fetchOptions.body = Buffer.from(await encoded.arrayBuffer());
+  }
+  const signable: SignableRequest = {
+    method: endpoint.method,
+    url,
+    headers,
+    body:
+      fetchOptions.body instanceof URLSearchParams
+        ? fetchOptions.body.toString()
+        : typeof fetchOptions.body === "string" || Buffer.isBuffer(fetchOptions.body)
+          ? fetchOptions.body
+          : undefined,
+  };
+  if (signer) {
+    Object.assign(headers, signer.sign(signable));
+  }
+
+  let fetched = await fetchWithDetails(url, fetchOptions, options.connection);
+  // Both timings run from the first request, so they include redirects and a challenge retry
+  const start = fetched.startedAt;
+
+  // Answer challenge/response schemes like Digest with a second request
+  const challenge = fetched.response.status === 401 ? fetched.response.headers.get("www-authenticate") : null;
+  const challengeHeaders = challenge && signer?.respondToChallenge?.(signable, challenge);
+  if (challengeHeaders) {
+    Object.assign(headers, challengeHeaders);
+    await fetched.response.body?.cancel();
+    fetched = await fetchWithDetails(url, fetchOptions, options.connection);
+  }
+  const res = fetched.response;
+  const contentType = res.headers.get("content-type") || "";
+  const responseHeaders: Record<string, string> = {};
+  res.headers.forEach((value, name) => {
+    responseHeaders[name] = value;
+  });
+
+  let rawBody: string;
+  let size: number;
+  let file: ResponseFile | undefined;
+  let events: ServerSentEvent[] | undefined;
+  if (isEventStreamContentType(contentType) && res.body) {
+    stream?.open({
+      url: displayUrl,
+      status: res.status,
+      statusText: res.statusText,
+      contentType,
+      headers: responseHeaders,
+    });
+    ({ events, size } = await readEventStream(res.body, stream));
+    rawBody = formatEvents(events);
+  } else {
+    const data = Buffer.from(await res.arrayBuffer());
+    size = data.length;
+    if (isBinaryContentType(contentType)) {
+      // Decoding images, PDFs and archives as text would corrupt them
+      file = await saveResponseFile(
+        data,
+        getResponseFileName(url, contentType, res.headers.get("content-disposition") || undefined),
+      );
+      rawBody = `${formatBytes(size)} saved to ${file.path}`;
+    } else {
+      rawBody = data.toString("utf8");
+    }
+  }
+
+  const metrics: ResponseMetrics = {
+    duration: Date.now() - start,
+    timeToFirstByte: fetched.headersAt - start,
+    size,
+    redirects: fetched.redirects,
+  };
+
+  let responseText = rawBody;
+  let json: unknown;
+  // application/json and its +json variants, like application/problem+json
+  if (/^application\/([^;/]+\+)?json\s*(;|$)/i.test(contentType.trim())) {
+    try {
+      json = JSON.parse(rawBody);
+      responseText = JSON.stringify(json, null, 2);
+    } catch {
+      // Show what the server sent when it isn't valid JSON
+    }
+  }
+
+  // Save to request history (with masked headers)
+  await addRequestToHistory({
+    specId: source.specId,
+    specName: source.specName,
+    method: endpoint.method,
+    path: endpoint.path,
+    url: displayUrl,
+    headers: maskSensitiveHeaders(headers, [
+      ...Object.keys(auth.headers),
+      ...(options.signing?.hmac ? [options.signing.hmac.header] : []),
+    ]),
+    body: isFormBody ? formatFormBody(formFields, formValues) || undefined : hasBody && body ? body : undefined,
+    timestamp: new Date().toISOString(),
+    response: {
+      status: res.status,
+      statusText: res.statusText,
+      body: responseText,
+      contentType,
+      headers: responseHeaders,
+      metrics,
+      file,
+    },
+  });
+
+  return {
+    url: displayUrl,
+    ok: res.ok,
+    status: res.status,
+    statusText: res.statusText,
+    contentType,
+    headers: responseHeaders,
+    body: responseText,
+    json,
+    metrics,
+    file,
+    events,
+  };
+}
@@ -0,0 +1,280 @@
+import { OpenAPISpec, Parameter, ParsedEndpoint, Server, ServerSelection, StoredSpec } from "../types/openapi";
+import { getHeaderParams, getPrimaryType, getQueryParams, resolveSchema } from "./openapi-parser";
+import { FormValues, getFormBodyFields } from "./form-body";
+import { applyAuth, AuthOptions } from "./auth";
+import { ParsedCurl } from "./curl-parser";
+import { getEnvironmentBaseUrl } from "./environments";
+
+/**
+ * Values to start the request builder with, e.g. from an imported cURL command
+ */
+export interface RequestPrefill {
+  paramValues: Record<string, string>;
+  bodyJson?: string;
+  formValues?: FormValues;
+  /** Headers the endpoint doesn't declare */
+  extraHeaders: Record<string, string>;
+  /** Query parameters the endpoint doesn't declare, in order and possibly repeated */
+  extraQuery: [string, string][];
+  /** Token to send instead of the stored one */
+  customToken?: string;
+}
+
+/**
+ * A spec loaded with its endpoints, to match requests against
+ */
+export interface SpecEndpoints {
+  spec: StoredSpec;
+  openApiSpec: OpenAPISpec;
+  endpoints: ParsedEndpoint[];
+}
+
+export interface EndpointMatch extends SpecEndpoints {
+  endpoint: ParsedEndpoint;
+  /** Base URL the request was sent to */
+  baseUrl: string;
+  /** Spec server the base URL matched, with its variables filled in from the URL */
+  serverSelection?: ServerSelection;
+  pathValues: Record<string, string>;
+}
+
+type Capture = { kind: "server" | "path"; name: string };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Turn a URL template into a pattern, with a capture for each {variable}
+ */
+function templateToPattern(template: string, kind: Capture["kind"], captures: Capture[]): string {
+  return template
+    .split(/(\{[^}]+\})/)
+    .map((part) => {
+      const variable = /^\{([^}]+)\}$/.exec(part);
+      if (!variable) {
+        return escapeRegExp(part);
+      }
+      captures.push({ kind, name: variable[1] });
+      return "([^/?#]+?)";
+    })
+    .join("");
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Placeholders left in copied commands, e.g. {id} or <YOUR_TOKEN>
+function isPlaceholder(value: string): boolean {
+  return /^(\{[^}]*\}|<[^>]*>)$/.test(value);
+}
+
+/**
+ * Find the endpoint a request URL was sent to, by method, server and path template.
+ * Paths with more literal characters win, so /pets/mine beats /pets/{id}.
+ */
+export function matchEndpoint(method: string, url: string, candidates: SpecEndpoints[]): EndpointMatch | undefined {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return undefined;
+  }
+  const target = `${parsedUrl.origin}${parsedUrl.pathname}`.replace(/\/+$/, "");
+
+  let best: { match: EndpointMatch; score: number } | undefined;
+  for (const candidate of candidates) {
+    for (const endpoint of candidate.endpoints) {
+      if (endpoint.method !== method.toUpperCase()) continue;
+
+      const servers: Server[] = endpoint.servers || candidate.openApiSpec.servers || [];
+      const serverTemplates = [
+        ...servers.map((server) => server.url),
+        candidate.spec.baseUrl,
+        ...(candidate.spec.environments || []).map(getEnvironmentBaseUrl),
+      ].filter((template): template is string => !!template);
+
+      for (const template of serverTemplates) {
+        const captures: Capture[] = [];
+        const serverPattern = templateToPattern(template.replace(/\/+$/, ""), "server", captures);
+        const pathPattern = templateToPattern(endpoint.path.replace(/\/+$/, ""), "path", captures);
+        // The first group is the whole base URL
+        const result = new RegExp(`^(${serverPattern})${pathPattern}$`, "i").exec(target);
+        if (!result) continue;
+
+        const score = endpoint.path.replace(/\{[^}]+\}/g, "").length;
+        if (best && best.score >= score) continue;
+
+        const pathValues: Record<string, string> = {};
+        const variables: Record<string, string> = {};
+        captures.forEach((capture, index) => {
+          const value = safeDecode(result[index + 2]);
+          if (isPlaceholder(value)) return;
+          (capture.kind === "path" ? pathValues : variables)[capture.name] = value;
+        });
+
+        const server = servers.find((s) => s.url === template);
+        best = {
+          score,
+          match: {
+            ...candidate,
+            endpoint,
+            baseUrl: result[1],
+            serverSelection: server ? { url: server.url, variables } : undefined,
+            pathValues,
+          },
+        };
+      }
+    }
+  }
+
+  return best?.match;
+}
+
+/**
+ * Names of the headers and query parameters that carry credentials for an auth setup
+ */
+function getAuthNames(options: AuthOptions): { headers: string[]; query: string[] } {
+  if (options.signing) {
+    const headers = ["authorization", "x-amz-date", "x-amz-content-sha256", "x-amz-security-token"];
+    if (options.signing.hmac) {
+      headers.push(options.signing.hmac.header.toLowerCase());
+      if (options.signing.hmac.timestampHeader) headers.push(options.signing.hmac.timestampHeader.toLowerCase());
+    }
+    return { headers, query: [] };
+  }
+  const auth = applyAuth(options, "token");
+  return {
+    headers: Object.keys(auth.headers).map((name) => name.toLowerCase()),
+    query: Object.keys(auth.query),
+  };
+}
+
+function isArrayParam(param: Parameter): boolean {
+  return !!param.schema && getPrimaryType(resolveSchema(param.schema)) === "array";
+}
+
+/**
+ * Spread an imported request over the endpoint's parameters and body.
+ * Headers and query parameters the endpoint doesn't declare are kept as extras,
+ * except credentials when a stored token will be sent instead.
+ */
+export function getCurlPrefill(parsed: ParsedCurl, match: EndpointMatch, auth?: AuthOptions): RequestPrefill {
+  const { endpoint } = match;
+  const paramValues: Record<string, string> = { ...match.pathValues };
+  const extraHeaders: Record<string, string> = {};
+  const extraQuery: [string, string][] = [];
+  const authNames = auth ? getAuthNames(auth) : { headers: [], query: [] };
+  const hasBody = !!endpoint.requestBody && ["POST", "PUT", "PATCH"].includes(endpoint.method);
+
+  // Query parameters by name, repeated values become comma-separated arrays
+  const queryParams = getQueryParams(endpoint);
+  const collected = new Map<string, string[]>();
+  const deepObjects = new Map<string, Record<string, string>>();
+  for (const [name, value] of new URL(parsed.url).searchParams) {
+    const param = queryParams.find((p) => p.name === name);
+    const deepObject = /^([^[]+)\[([^\]]*)\]$/.exec(name);
+    const deepParam = deepObject && queryParams.find((p) => p.name === deepObject[1] && p.style === "deepObject");
+
+    if (isPlaceholder(value) || authNames.query.includes(name)) {
+      continue;
+    } else if (param) {
+      collected.set(name, [...(collected.get(name) || []), value]);
+    } else if (deepObject && deepParam) {
+      deepObjects.set(deepParam.name, { ...deepObjects.get(deepParam.name), [deepObject[2]]: value });
+    } else {
+      extraQuery.push([name, value]);
+    }
+  }
+  for (const [name, values] of collected) {
+    const param = queryParams.find((p) => p.name === name)!;
+    paramValues[name] = isArrayParam(param) ? values.join(",") : values[values.length - 1];
+  }
+  for (const [name, value] of deepObjects) {
+    paramValues[name] = JSON.stringify(value);
+  }
+
+  // Header parameters by case-insensitive name, the body's Content-Type comes from the spec
+  const headerParams = getHeaderParams(endpoint);
+  for (const [name, value] of Object.entries(parsed.headers)) {
+    const lowerName = name.toLowerCase();
+    const param = headerParams.find((p) => p.name.toLowerCase() === lowerName);
+    if (param) {
+      paramValues[param.name] = value;
+    } else if (!authNames.headers.includes(lowerName) && !(hasBody && lowerName === "content-type")) {
+      extraHeaders[name] = value;
+    }
+  }
+
+  const prefill: RequestPrefill = { paramValues, extraHeaders, extraQuery };
+  if (!hasBody) {
+    return prefill;
+  }
+
+  const formFields = getFormBodyFields(endpoint);
+  if (formFields.length > 0) {
+    // Multipart fields come from -F, URL-encoded ones from the data
+    const pairs: [string, string, boolean][] = parsed.form
+      ? parsed.form.map((field) => [field.name, field.value, field.file])
+      : [...new URLSearchParams(parsed.body || "")].map(([name, value]) => [name, value, false]);
+
+    const formValues: FormValues = {};
+    for (const field of formFields) {
+      const values = pairs.filter(([name]) => name === field.name);
+      if (values.length === 0) continue;
+      formValues[field.name] =
+        field.kind === "text" ? values.map(([, value]) => value).join(",") : values.map(([, value]) => value);
+    }
+    prefill.formValues = formValues;
+  } else if (parsed.body !== undefined) {
+    try {
+      prefill.bodyJson = JSON.stringify(JSON.parse(parsed.body), null, 2);
+    } catch {
+      prefill.bodyJson = parsed.body;
+    }
+  }
+
+  return prefill;
+}
+
+/**
+ * Extra headers as "Name: value" lines, for editing in a text area
+ */
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const index = line.indexOf(":");
+    if (index > 0) {
+      headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Extra query parameters as "name=value" lines, for editing in a text area
+ */
+export function formatQueryLines(query: [string, string][]): string {
+  return query.map(([name, value]) => `${name}=${value}`).join("\n");
+}
+
+export function parseQueryLines(text: string): [string, string][] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const index = line.indexOf("=");
+      return index < 0 ? [line.trim(), ""] : [line.slice(0, index).trim(), line.slice(index + 1).trim()];
+    });
+}
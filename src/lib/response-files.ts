@@ -0,0 +1,107 @@
+import { constants } from "fs";
+import { copyFile, mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, extname, join } from "path";
+import { ResponseFile } from "../types/openapi";
+
+const TEXT_CONTENT_TYPES = [
+  "json",
+  "xml",
+  "javascript",
+  "ecmascript",
+  "yaml",
+  "csv",
+  "graphql",
+  "x-www-form-urlencoded",
+  "event-stream",
+];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "image/x-icon": ".ico",
+  "image/vnd.microsoft.icon": ".ico",
+  "application/pdf": ".pdf",
+  "application/zip": ".zip",
+  "application/gzip": ".gz",
+  "application/x-tar": ".tar",
+  "audio/mpeg": ".mp3",
+  "audio/wav": ".wav",
+  "audio/ogg": ".ogg",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+};
+
+/**
+ * True for bodies that aren't text, like images, PDFs and archives. Responses without
+ * a Content-Type are treated as text, that's what most APIs leave it off for.
+ */
+export function isBinaryContentType(contentType: string): boolean {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  if (!type || type.startsWith("text/")) return false;
+  return !TEXT_CONTENT_TYPES.some((text) => type.includes(text));
+}
+
+/**
+ * Images the detail view can show inline
+ */
+export function isImageContentType(contentType: string): boolean {
+  return /^image\/(png|jpeg|gif|webp|svg\+xml|x-icon|vnd\.microsoft\.icon)/i.test(contentType.trim());
+}
+
+/**
+ * File name from Content-Disposition, then the URL's last segment, then the content type
+ */
+export function getResponseFileName(url: string, contentType: string, contentDisposition?: string): string {
+  const encoded = contentDisposition && /filename\*\s*=\s*[\w-]+'[^']*'([^;]+)/i.exec(contentDisposition);
+  const plain = contentDisposition && /filename\s*=\s*(?:"([^"]+)"|([^;]+))/i.exec(contentDisposition);
+  let name: string | undefined;
+  try {
+    name = encoded ? decodeURIComponent(encoded[1].trim()) : undefined;
+  } catch {
+    // Fall back to the plain filename when the encoded one is malformed
+  }
+  name = name || (plain ? (plain[1] || plain[2]).trim() : undefined);
+
+  if (!name) {
+    try {
+      const segment = decodeURIComponent(new URL(url).pathname.split("/").pop() || "");
+      name = extname(segment) ? segment : undefined;
+    } catch {
+      // Not a URL we can take a name from
+    }
+  }
+
+  // Never let a server pick the directory
+  const safe = basename((name || "").replace(/\\/g, "/")).replace(/^\.+/, "");
+  return safe || `response${EXTENSIONS[contentType.split(";")[0].trim().toLowerCase()] || ".bin"}`;
+}
+
+/**
+ * Write a binary body to its own temporary directory, keeping the file name readable in Finder
+ */
+export async function saveResponseFile(data: Buffer, name: string): Promise<ResponseFile> {
+  const directory = await mkdtemp(join(tmpdir(), "openapi-fetcher-"));
+  const path = join(directory, name);
+  await writeFile(path, data);
+  return { path, name };
+}
+
+/**
+ * Copy a saved response to a chosen directory, returning the new path
+ */
+export async function copyResponseFile(file: ResponseFile, directory: string, name = file.name): Promise<string> {
+  const destination = join(directory, basename(name));
+  try {
+    await copyFile(file.path, destination, constants.COPYFILE_EXCL);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`${basename(name)} already exists in ${directory}`);
+    }
+    throw error;
+  }
+  return destination;
+}
@@ -0,0 +1,121 @@
+import { Environment, OpenAPISpec, ParsedEndpoint, SavedRequest, StoredSpec } from "../types/openapi";
+import type { CurlOptions } from "./curl-generator";
+import { getEndpointBaseUrl, parseEndpoints, resolveServerUrls } from "./openapi-parser";
+import { fetchSpec, getCachedSpec, getSpec } from "./storage";
+import { getEndpointAuthOptions } from "./auth";
+import { ensureFreshToken } from "./oauth";
+import { getActiveEnvironment, getActiveStoredToken, getEnvironmentBaseUrl } from "./environments";
+import type { RequestPrefill } from "./request-prefill";
+import { executeEndpointRequest, RequestResult } from "./request-executor";
+import type { EventStream } from "./event-stream";
+import { applyExtractionRules, getEndpointExtractionRules, getRequestVariables } from "./extraction";
+
+/**
+ * Everything needed to open or run a saved request against its spec as it is now
+ */
+export interface SavedRequestContext {
+  spec: StoredSpec;
+  openApiSpec: OpenAPISpec;
+  endpoint: ParsedEndpoint;
+  environment?: Environment;
+  /** Options with the stored token and the active environment, the saved values are in prefill */
+  curlOptions: CurlOptions;
+  prefill: RequestPrefill;
+}
+
+/**
+ * Find the saved endpoint, by operation ID first so renamed paths still match
+ */
+function findEndpoint(endpoints: ParsedEndpoint[], saved: SavedRequest): ParsedEndpoint | undefined {
+  return (
+    (saved.operationId && endpoints.find((e) => e.operationId === saved.operationId)) ||
+    endpoints.find((e) => e.method === saved.method && e.path === saved.path)
+  );
+}
+
+export function getSavedRequestPrefill(saved: SavedRequest): RequestPrefill {
+  return {
+    paramValues: saved.paramValues,
+    bodyJson: saved.bodyJson,
+    formValues: saved.formValues,
+    extraHeaders: saved.extraHeaders,
+    extraQuery: saved.extraQuery,
+    customToken: saved.customToken,
+  };
+}
+
+/**
+ * Load the spec, endpoint and credentials for a saved request.
+ * With fresh set, OAuth tokens are refreshed so the request can be sent right away.
+ */
+export async function loadSavedRequest(saved: SavedRequest, fresh = false): Promise<SavedRequestContext> {
+  const spec = await getSpec(saved.specId);
+  if (!spec) {
+    throw new Error(`The spec "${saved.specName}" was deleted`);
+  }
+
+  const cached = await getCachedSpec(spec.id);
+  const openApiSpec = cached
+    ? resolveServerUrls(cached, spec.url)
+    : await fetchSpec(spec.url, spec.id, spec.connection);
+  const endpoint = findEndpoint(parseEndpoints(openApiSpec), saved);
+  if (!endpoint) {
+    throw new Error(`${saved.method} ${saved.path} is no longer in ${spec.name}`);
+  }
+
+  const environment = getActiveEnvironment(spec);
+  const stored = await getActiveStoredToken(spec);
+  const token = stored && fresh ? await ensureFreshToken(stored) : stored;
+  const prefill = getSavedRequestPrefill(saved);
+
+  return {
+    spec,
+    openApiSpec,
+    endpoint,
+    environment,
+    curlOptions: {
+      baseUrl: getEnvironmentBaseUrl(environment) || getEndpointBaseUrl(endpoint, spec, openApiSpec),
+      authToken: token?.token,
+      ...getEndpointAuthOptions(endpoint, token?.auth),
+      includeExampleBody: true,
+      connection: spec.connection,
+      variables: await getRequestVariables(spec),
+    },
+    prefill,
+  };
+}
+
+/**
+ * The saved values on top of the context's options, with the saved custom token if there is one
+ */
+export function getSavedRequestOptions({ curlOptions, prefill }: SavedRequestContext): CurlOptions {
+  const { customToken, ...values } = prefill;
+  return { ...curlOptions, ...values, authToken: customToken || curlOptions.authToken };
+}
+
+/**
+ * Send a saved request as it was saved, with the current token and variables, then run its extraction rules
+ */
+export async function executeSavedRequest(
+  saved: SavedRequest,
+  stream?: EventStream,
+): Promise<{
+  context: SavedRequestContext;
+  result: RequestResult;
+  extracted: Record<string, string>;
+  extractionErrors: Record<string, string>;
+}> {
+  const context = await loadSavedRequest(saved, true);
+  const result = await executeEndpointRequest(
+    context.endpoint,
+    getSavedRequestOptions(context),
+    {
+      specId: context.spec.id,
+      specName: context.spec.name,
+    },
+    stream,
+  );
+  const rules = [...getEndpointExtractionRules(context.spec, context.endpoint), ...(saved.extractionRules || [])];
+  const { values: extracted, errors: extractionErrors } = await applyExtractionRules(context.spec.id, rules, result);
+  return { context, result, extracted, extractionErrors };
+}
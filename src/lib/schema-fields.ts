@@ -0,0 +1,108 @@
+import { Parameter, Schema } from "../types/openapi";
+import { getPrimaryType, resolveSchema } from "./openapi-parser";
+
+export type FieldKind = "enum" | "boolean" | "date" | "date-time" | "number" | "text" | "object" | "array" | "json";
+
+/**
+ * Pick the form control for a resolved schema
+ */
+export function getFieldKind(schema: Schema): FieldKind {
+  if (schema.enum && schema.enum.length > 0) {
+    return "enum";
+  }
+
+  const type = getPrimaryType(schema) || (schema.properties ? "object" : schema.items ? "array" : undefined);
+  switch (type) {
+    case "boolean":
+      return "boolean";
+    case "integer":
+    case "number":
+      return "number";
+    case "string":
+      return schema.format === "date" || schema.format === "date-time" ? schema.format : "text";
+    case "object":
+      // Free-form maps have no fields to show, edit them as JSON
+      return schema.properties && Object.keys(schema.properties).length > 0 ? "object" : "json";
+    case "array":
+      return schema.items ? "array" : "json";
+    default:
+      return "json";
+  }
+}
+
+/**
+ * Read a date or date-time string for a date picker
+ */
+export function parseDateValue(value: unknown): Date | null {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+  // Date-only strings parse as UTC midnight, read them as local dates instead
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a picked date as an RFC 3339 full-date or date-time
+ */
+export function formatDateValue(date: Date, kind: FieldKind): string {
+  if (kind === "date-time") {
+    return date.toISOString();
+  }
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Whether a parameter must be filled in. Path parameters always are.
+ */
+export function isParameterRequired(param: Parameter): boolean {
+  return param.in === "path" || !!param.required;
+}
+
+/**
+ * Initial input values from parameter schema defaults, keyed by parameter name.
+ * Required booleans without a default start as "false", matching their unchecked checkbox.
+ * Optional ones stay unset so they're left out of the request.
+ */
+export function getDefaultParamValues(params: Parameter[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const param of params) {
+    const schema = param.schema ? resolveSchema(param.schema) : undefined;
+    const value =
+      schema?.default ??
+      (schema && isParameterRequired(param) && getFieldKind(schema) === "boolean" ? false : undefined);
+    if (value === undefined || value === null) continue;
+
+    values[param.name] = Array.isArray(value)
+      ? value.join(",")
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  }
+  return values;
+}
+
+/**
+ * Describe the numeric range of a schema, e.g. "1 to 100" or "> 0"
+ */
+export function describeNumberRange(schema: Schema): string | undefined {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+  const lower =
+    typeof exclusiveMinimum === "number"
+      ? `> ${exclusiveMinimum}`
+      : minimum !== undefined
+        ? `${exclusiveMinimum ? ">" : ">="} ${minimum}`
+        : undefined;
+  const upper =
+    typeof exclusiveMaximum === "number"
+      ? `< ${exclusiveMaximum}`
+      : maximum !== undefined
+        ? `${exclusiveMaximum ? "<" : "<="} ${maximum}`
+        : undefined;
+
+  if (lower && upper) {
+    return `${lower} and ${upper}`;
+  }
+  return lower || upper;
+}
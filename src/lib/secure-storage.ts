@@ -1,7 +1,65 @@
 import { LocalStorage } from "@raycast/api";
+import { AuthType } from "../types/openapi";
 
 const TOKEN_PREFIX = "api-token-v2-";
 
+/**
+ * Auth types that sign each request instead of sending the token as is
+ */
+export type SignerType = "aws-sigv4" | "hmac" | "digest";
+
+/**
+ * How a token is sent. "auto" follows the security scheme declared by the spec,
+ * "oauth2" tokens are obtained through an OAuth flow and sent as bearer tokens.
+ * Signer types keep their secret in the token and sign every request with it.
+ */
+export interface AuthProfile {
+  type: "auto" | AuthType | "oauth2" | SignerType;
+  in?: "header" | "query" | "cookie"; // Where an API key goes
+  name?: string; // API key header, query parameter or cookie name
+  prefix?: string; // Put before the token, e.g. "Bearer" or "Token"
+  username?: string; // Basic or Digest auth username, the token is the password
+  oauth?: OAuthSettings;
+  aws?: AwsSigningSettings;
+  hmac?: HmacSigningSettings;
+}
+
+/**
+ * AWS Signature V4 credentials, the token is the secret access key
+ */
+export interface AwsSigningSettings {
+  accessKeyId: string;
+  region: string;
+  service: string; // e.g. "execute-api" or "s3"
+  sessionToken?: string; // For temporary credentials
+}
+
+/**
+ * Generic HMAC-SHA256 signing, the token is the signing key
+ */
+export interface HmacSigningSettings {
+  header: string; // Header that carries the signature
+  template: string; // Canonical string with {method}, {path}, {timestamp}, {header:Name}... placeholders
+  valueTemplate: string; // Header value with a {signature} placeholder
+  timestampHeader?: string; // Also send the {timestamp} in this header
+  encoding: "hex" | "base64";
+}
+
+/**
+ * OAuth client settings and the refresh state of the current access token
+ */
+export interface OAuthSettings {
+  flow: "clientCredentials" | "authorizationCode";
+  tokenUrl: string;
+  authorizationUrl?: string; // Authorization code flow only
+  redirectUri?: string; // Authorization code flow only, must point at localhost
+  clientId: string;
+  clientSecret?: string; // Optional for public clients using PKCE
+  scopes?: string; // Space-separated
+  refreshToken?: string;
+  expiresAt?: string; // ISO timestamp when the access token expires
+}
+
 /**
  * Token data structure with name and optional default spec association
  */
@@ -10,6 +68,7 @@ export interface StoredToken {
   name: string; // User-provided name for the token
   token: string; // The actual token value
   defaultSpecId?: string; // The spec this token is auto-used for (optional)
+  auth?: AuthProfile; // Missing on older tokens, treated as "auto"
   createdAt: string; // ISO timestamp
 }
 
@@ -27,6 +86,7 @@ export async function saveToken(data: {
   name: string;
   token: string;
   defaultSpecId?: string;
+  auth?: AuthProfile;
   id?: string;
 }): Promise<StoredToken> {
   const id = data.id || generateTokenId();
@@ -35,6 +95,7 @@ export async function saveToken(data: {
     name: data.name,
     token: data.token,
     defaultSpecId: data.defaultSpecId,
+    auth: data.auth,
     createdAt: new Date().toISOString(),
   };
   await LocalStorage.setItem(`${TOKEN_PREFIX}${id}`, JSON.stringify(storedToken));
@@ -58,11 +119,18 @@ export async function getTokenById(tokenId: string): Promise<StoredToken | undef
  * Get the token for a spec (finds the token with matching defaultSpecId)
  */
 export async function getTokenForSpec(specId: string): Promise<string | undefined> {
-  const allTokens = await listAllTokens();
-  const matchingToken = allTokens.find((t) => t.defaultSpecId === specId);
+  const matchingToken = await getStoredTokenForSpec(specId);
   return matchingToken?.token;
 }
 
+/**
+ * Get the full stored token for a spec, including its auth profile
+ */
+export async function getStoredTokenForSpec(specId: string): Promise<StoredToken | undefined> {
+  const allTokens = await listAllTokens();
+  return allTokens.find((t) => t.defaultSpecId === specId);
+}
+
 /**
  * Legacy function for backward compatibility - get token by spec ID
  * @deprecated Use getTokenForSpec instead
@@ -121,7 +189,7 @@ export async function listAllTokens(): Promise<StoredToken[]> {
  */
 export async function updateToken(
   tokenId: string,
-  updates: Partial<Pick<StoredToken, "name" | "token" | "defaultSpecId">>,
+  updates: Partial<Pick<StoredToken, "name" | "token" | "defaultSpecId" | "auth">>,
 ): Promise<StoredToken | undefined> {
   const existing = await getTokenById(tokenId);
   if (!existing) return undefined;
@@ -0,0 +1,392 @@
+import { getPreferenceValues } from "@raycast/api";
+
+export type ShellDialect = "posix" | "cmd" | "powershell";
+
+/** A command-line flag and its value, e.g. ["-H", "Accept: application/json"]. Use "" as the flag for positional values. */
+export type ShellArg = [flag: string, value?: string];
+
+interface ShellPreferences {
+  shellDialect?: ShellDialect | "auto";
+}
+
+const SAFE_ARGS: Record<ShellDialect, RegExp> = {
+  posix: /^[\w@%+=:,./-]+$/,
+  cmd: /^[\w@+=:,./-]+$/,
+  powershell: /^[\w+=:./-]+$/,
+};
+
+const LINE_CONTINUATIONS: Record<ShellDialect, string> = {
+  posix: " \\\n  ",
+  cmd: " ^\n  ",
+  powershell: " `\n  ",
+};
+
+/**
+ * The shell chosen in preferences, falling back to the platform's default shell
+ */
+export function getShellDialect(): ShellDialect {
+  const { shellDialect } = getPreferenceValues<ShellPreferences>();
+  if (shellDialect && shellDialect !== "auto") {
+    return shellDialect;
+  }
+  return process.platform === "win32" ? "powershell" : "posix";
+}
+
+/**
+ * Quote a value so the shell passes it to the command unchanged, leaving simple values bare
+ */
+export function quoteShellArg(value: string, dialect: ShellDialect): string {
+  if (SAFE_ARGS[dialect].test(value)) {
+    return value;
+  }
+
+  switch (dialect) {
+    case "posix":
+      // Nothing expands inside single quotes, a quote is closed, escaped and reopened
+      return `'${value.replace(/'/g, "'\\''")}'`;
+    case "powershell": {
+      // Windows PowerShell 5.1 strips bare " from arguments to native commands like curl.exe,
+      // so they're escaped for the program's argument parser, doubling backslashes before them.
+      // It also wraps arguments with spaces in quotes, which trailing backslashes would escape.
+      // PowerShell 7.3+ needs $PSNativeCommandArgumentPassing = "Legacy" to pass them the same way.
+      let escaped = value.replace(/(\\*)"/g, '$1$1\\"');
+      if (/\s/.test(value)) {
+        escaped = escaped.replace(/(\\+)$/, "$1$1");
+      }
+      return `'${escaped.replace(/'/g, "''")}'`;
+    }
+    case "cmd": {
+      // cmd can't pass line breaks in arguments, "" keeps cmd's own quote tracking in step.
+      // A % is moved outside the quotes so %VAR% isn't expanded, and backslashes before
+      // a quote are doubled for the program's argument parser.
+      if (/[\r\n]/.test(value)) {
+        throw new Error("cmd can't pass line breaks in arguments, copy the command for PowerShell or a POSIX shell");
+      }
+      const escaped = value
+        .replace(/(\\*)"/g, '$1$1""')
+        .replace(/(\\*)%/g, '$1$1"%"')
+        .replace(/(\\+)$/, "$1$1");
+      return `"${escaped}"`;
+    }
+  }
+}
+
+/**
+ * Render a command with one flag per line, using the dialect's line continuation
+ */
+export function formatShellCommand(command: string, args: ShellArg[], dialect: ShellDialect): string {
+  const lines = args.map(([flag, value]) =>
+    [flag, value !== undefined ? quoteShellArg(value, dialect) : ""].filter(Boolean).join(" "),
+  );
+  return [command, ...lines].join(LINE_CONTINUATIONS[dialect]);
+}
+
+/**
+ * Join a multi-line command onto a single line, for any dialect
+ */
+export function joinShellLines(command: string): string {
+  return Object.values(LINE_CONTINUATIONS).reduce(
+    (joined, continuation) => joined.split(continuation).join(" "),
+    command,
+  );
+}
+
+/**
+ * Guess the shell a pasted command was written for from its line continuations and quoting
+ */
+export function detectShellDialect(command: string): ShellDialect {
+  if (/^\s*curl\.exe\b/i.test(command) || /`\r?\n/.test(command)) {
+    return "powershell";
+  }
+  if (/\^\r?\n/.test(command) || command.includes('^"')) {
+    return "cmd";
+  }
+  return "posix";
+}
+
+/**
+ * Split a command line into its arguments the way the shell would, the reverse of quoteShellArg
+ */
+export function splitShellCommand(command: string, dialect = detectShellDialect(command)): string[] {
+  switch (dialect) {
+    case "posix":
+      return splitPosixCommand(command);
+    case "powershell":
+      return splitPowerShellCommand(command);
+    case "cmd":
+      return splitCmdCommand(command);
+  }
+}
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  e: "\x1b",
+  E: "\x1b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+};
+
+interface ArgumentBuilder {
+  args: string[];
+  append: (text: string) => void;
+  end: () => void;
+}
+
+/**
+ * Collects characters into arguments, an argument starts at its first character or quote
+ */
+function createArgumentBuilder(): ArgumentBuilder {
+  const args: string[] = [];
+  let current = "";
+  let started = false;
+
+  return {
+    args,
+    append(text) {
+      current += text;
+      started = true;
+    },
+    end() {
+      if (started) {
+        args.push(current);
+      }
+      current = "";
+      started = false;
+    },
+  };
+}
+
+function findClosingQuote(command: string, quote: string, start: number): number {
+  const end = command.indexOf(quote, start);
+  if (end < 0) {
+    throw new Error("Unterminated quote in command");
+  }
+  return end;
+}
+
+function splitPosixCommand(command: string): string[] {
+  const builder = createArgumentBuilder();
+  let i = 0;
+
+  while (i < command.length) {
+    const char = command[i];
+
+    if (char === "\\") {
+      const next = command[i + 1];
+      // Line continuation
+      if (next === "\n" || (next === "\r" && command[i + 2] === "\n")) {
+        i += next === "\r" ? 3 : 2;
+      } else {
+        builder.append(next ?? "");
+        i += 2;
+      }
+    } else if (/\s/.test(char)) {
+      builder.end();
+      i++;
+    } else if (char === "'") {
+      const end = findClosingQuote(command, "'", i + 1);
+      builder.append(command.slice(i + 1, end));
+      i = end + 1;
+    } else if (char === "$" && command[i + 1] === "'") {
+      i = readAnsiCString(command, i + 2, builder);
+    } else if (char === '"') {
+      i++;
+      while (command[i] !== '"') {
+        if (i >= command.length) {
+          throw new Error("Unterminated quote in command");
+        }
+        // Only these characters can be escaped inside double quotes
+        if (command[i] === "\\" && '$`"\\\n'.includes(command[i + 1])) {
+          if (command[i + 1] !== "\n") builder.append(command[i + 1]);
+          i += 2;
+        } else {
+          builder.append(command[i]);
+          i++;
+        }
+      }
+      builder.append("");
+      i++;
+    } else {
+      builder.append(char);
+      i++;
+    }
+  }
+
+  builder.end();
+  return builder.args;
+}
+
+/**
+ * Read a $'...' string with C escapes, as used by browsers' "Copy as cURL", returning the index after it
+ */
+function readAnsiCString(command: string, start: number, builder: ArgumentBuilder): number {
+  let i = start;
+  builder.append("");
+
+  while (command[i] !== "'") {
+    if (i >= command.length) {
+      throw new Error("Unterminated quote in command");
+    }
+    if (command[i] !== "\\") {
+      builder.append(command[i]);
+      i++;
+      continue;
+    }
+
+    const escape = command[i + 1];
+    const hex = /^(?:x([\da-fA-F]{1,2})|u([\da-fA-F]{1,4})|U([\da-fA-F]{1,8})|([0-7]{1,3}))/.exec(command.slice(i + 1));
+    if (hex) {
+      const code = hex[4] !== undefined ? parseInt(hex[4], 8) : parseInt(hex[1] || hex[2] || hex[3], 16);
+      builder.append(String.fromCodePoint(code));
+      i += 1 + hex[0].length;
+    } else {
+      builder.append(ANSI_C_ESCAPES[escape] ?? escape);
+      i += 2;
+    }
+  }
+
+  return i + 1;
+}
+
+function splitPowerShellCommand(command: string): string[] {
+  const builder = createArgumentBuilder();
+  let i = 0;
+
+  while (i < command.length) {
+    const char = command[i];
+
+    if (char === "`") {
+      const next = command[i + 1];
+      // Line continuation
+      if (next === "\n" || (next === "\r" && command[i + 2] === "\n")) {
+        i += next === "\r" ? 3 : 2;
+      } else {
+        builder.append(next ?? "");
+        i += 2;
+      }
+    } else if (/\s/.test(char)) {
+      builder.end();
+      i++;
+    } else if (char === "'") {
+      // '' inside single quotes is a literal quote
+      let end = findClosingQuote(command, "'", i + 1);
+      let text = command.slice(i + 1, end);
+      while (command[end + 1] === "'") {
+        const next = findClosingQuote(command, "'", end + 2);
+        text += `'${command.slice(end + 2, next)}`;
+        end = next;
+      }
+      builder.append(text);
+      i = end + 1;
+    } else if (char === '"') {
+      i++;
+      builder.append("");
+      while (true) {
+        if (i >= command.length) {
+          throw new Error("Unterminated quote in command");
+        }
+        if (command[i] === "`") {
+          builder.append(ANSI_C_ESCAPES[command[i + 1]] ?? command[i + 1]);
+          i += 2;
+        } else if (command[i] === '"' && command[i + 1] === '"') {
+          builder.append('"');
+          i += 2;
+        } else if (command[i] === '"') {
+          i++;
+          break;
+        } else {
+          builder.append(command[i]);
+          i++;
+        }
+      }
+    } else {
+      builder.append(char);
+      i++;
+    }
+  }
+
+  builder.end();
+  return builder.args.map(unescapeNativeArgument);
+}
+
+/**
+ * Undo the escaping Windows PowerShell 5.1 needs for native command arguments, see quoteShellArg
+ */
+function unescapeNativeArgument(arg: string): string {
+  const unescaped = arg.replace(/(\\+)"/g, (match, slashes: string) =>
+    slashes.length % 2 === 1 ? `${"\\".repeat((slashes.length - 1) / 2)}"` : match,
+  );
+  return /\s/.test(arg) ? unescaped.replace(/(\\+)$/, (slashes: string) => "\\".repeat(slashes.length / 2)) : unescaped;
+}
+
+function splitCmdCommand(command: string): string[] {
+  // cmd removes ^ escapes outside its quotes, then the program splits what is left
+  let text = "";
+  let quoted = false;
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (char === "^" && !quoted) {
+      const next = command[i + 1];
+      if (next === "\r" && command[i + 2] === "\n") {
+        i += 2;
+      } else {
+        text += next ?? "";
+        i++;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    text += char;
+  }
+
+  const builder = createArgumentBuilder();
+  let inQuotes = false;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "\\") {
+      // Backslashes are only special before a quote
+      let count = 0;
+      while (text[i] === "\\") {
+        count++;
+        i++;
+      }
+      if (text[i] === '"') {
+        builder.append("\\".repeat(Math.floor(count / 2)));
+        if (count % 2 === 1) {
+          builder.append('"');
+          i++;
+        }
+      } else {
+        builder.append("\\".repeat(count));
+      }
+    } else if (char === '"') {
+      if (inQuotes && text[i + 1] === '"') {
+        builder.append('"');
+        i += 2;
+      } else {
+        inQuotes = !inQuotes;
+        builder.append("");
+        i++;
+      }
+    } else if (!inQuotes && /\s/.test(char)) {
+      builder.end();
+      i++;
+    } else {
+      builder.append(char);
+      i++;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quote in command");
+  }
+  builder.end();
+  return builder.args;
+}
@@ -0,0 +1,269 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import { AuthProfile, SignerType } from "./secure-storage";
+import { ShellArg } from "./shell-quote";
+
+/**
+ * The final request a signer computes its signature over
+ */
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** The exact bytes sent, undefined when the request has no body */
+  body?: string | Buffer;
+  /** A body is sent that can't be hashed up front, like a multipart upload a snippet's client builds */
+  hasUnhashableBody?: boolean;
+}
+
+export interface RequestSigner {
+  /** Headers to add to the request before it is sent */
+  sign(request: SignableRequest): Record<string, string>;
+  /** Headers for a retry after a 401 challenge, for challenge/response schemes like Digest */
+  respondToChallenge?(request: SignableRequest, challenge: string): Record<string, string> | undefined;
+  /** curl flags that make curl sign the request itself, instead of signing up front */
+  curlArgs?: ShellArg[];
+}
+
+type SignerFactory = (profile: AuthProfile, secret: string) => RequestSigner;
+
+const SIGNERS: Record<SignerType, SignerFactory> = {
+  "aws-sigv4": createAwsSigner,
+  hmac: createHmacSigner,
+  digest: createDigestSigner,
+};
+
+export const SIGNER_TYPES = Object.keys(SIGNERS) as SignerType[];
+
+export function isSignerType(type: string | undefined): type is SignerType {
+  return SIGNER_TYPES.includes(type as SignerType);
+}
+
+/**
+ * Get the signer for an auth profile, undefined when the profile doesn't sign requests
+ * @param secret - The stored token: AWS secret key, HMAC key or Digest password
+ */
+export function getRequestSigner(profile: AuthProfile | undefined, secret: string): RequestSigner | undefined {
+  return profile && isSignerType(profile.type) ? SIGNERS[profile.type](profile, secret) : undefined;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Compare by UTF-16 code units, which is byte order for the ASCII AWS canonical strings hold
+ */
+function compareCodeUnits(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function decodeQueryComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * RFC 3986 encoding, which AWS requires for canonical query strings
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * AWS Signature Version 4, signing method, path, query, host and x-amz headers plus the body hash
+ */
+function createAwsSigner(profile: AuthProfile, secretAccessKey: string): RequestSigner {
+  const { accessKeyId = "", region = "us-east-1", service = "execute-api", sessionToken } = profile.aws || {};
+
+  return {
+    sign(request) {
+      const url = new URL(request.url);
+      const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+      const dateStamp = amzDate.slice(0, 8);
+      // Only S3 takes an unsigned payload, every other service checks the body hash
+      let payloadHash = sha256Hex(request.body ?? "");
+      if (request.body === undefined && request.hasUnhashableBody) {
+        if (service !== "s3") {
+          throw new Error(`Can't sign this request body for ${service}, AWS needs its SHA-256 hash up front`);
+        }
+        payloadHash = "UNSIGNED-PAYLOAD";
+      }
+
+      // Only S3 wants the payload hash as a header, other services just sign it
+      const added: Record<string, string> = {
+        "x-amz-date": amzDate,
+        ...(service === "s3" ? { "x-amz-content-sha256": payloadHash } : {}),
+        ...(sessionToken ? { "x-amz-security-token": sessionToken } : {}),
+      };
+
+      const headers = Object.entries({ ...request.headers, ...added, host: url.host })
+        .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, " ")])
+        .sort(([a], [b]) => compareCodeUnits(a, b));
+      const signedHeaders = headers.map(([name]) => name).join(";");
+
+      // Read the raw pairs, searchParams would turn a literal + into a space
+      const canonicalQuery = url.search
+        .slice(1)
+        .split("&")
+        .filter(Boolean)
+        .map((pair) => {
+          const separator = pair.includes("=") ? pair.indexOf("=") : pair.length;
+          return [pair.slice(0, separator), pair.slice(separator + 1)].map((part) =>
+            encodeRfc3986(decodeQueryComponent(part)),
+          );
+        })
+        .sort(([a, aValue], [b, bValue]) => compareCodeUnits(a, b) || compareCodeUnits(aValue, bValue))
+        .map(([key, value]) => `${key}=${value}`)
+        .join("&");
+
+      // The path is already encoded once in the URL, every service but S3 signs it encoded twice
+      const path = url.pathname || "/";
+      const canonicalPath = service === "s3" ? path : path.split("/").map(encodeRfc3986).join("/");
+
+      const canonicalRequest = [
+        request.method.toUpperCase(),
+        canonicalPath,
+        canonicalQuery,
+        headers.map(([name, value]) => `${name}:${value}\n`).join(""),
+        signedHeaders,
+        payloadHash,
+      ].join("\n");
+
+      const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+      const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+      const signingKey = [dateStamp, region, service, "aws4_request"].reduce<Buffer>(
+        (key, part) => createHmac("sha256", key).update(part).digest(),
+        Buffer.from(`AWS4${secretAccessKey}`),
+      );
+      const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+      return {
+        ...added,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      };
+    },
+    curlArgs: [
+      ["--aws-sigv4", `aws:amz:${region}:${service}`],
+      ["-u", `${accessKeyId}:${secretAccessKey}`],
+      ...(sessionToken ? ([["-H", `x-amz-security-token: ${sessionToken}`]] as ShellArg[]) : []),
+    ],
+  };
+}
+
+export const DEFAULT_HMAC_TEMPLATE = "{method}\\n{path}\\n{timestamp}\\n{bodySha256}";
+export const DEFAULT_HMAC_VALUE = "HMAC-SHA256 {signature}";
+
+/**
+ * Generic HMAC-SHA256 over a canonical string built from a template.
+ * Placeholders: {method} {path} {query} {url} {host} {timestamp} {date} {body} {bodySha256} {header:Name},
+ * and \n for newlines.
+ */
+function createHmacSigner(profile: AuthProfile, secret: string): RequestSigner {
+  const {
+    header = "Authorization",
+    template = DEFAULT_HMAC_TEMPLATE,
+    valueTemplate = DEFAULT_HMAC_VALUE,
+    timestampHeader,
+    encoding = "hex",
+  } = profile.hmac || {};
+
+  return {
+    sign(request) {
+      const url = new URL(request.url);
+      const now = new Date();
+      const timestamp = String(Math.floor(now.getTime() / 1000));
+      const added: Record<string, string> = timestampHeader ? { [timestampHeader]: timestamp } : {};
+      const headers = { ...request.headers, ...added };
+
+      const values: Record<string, string> = {
+        method: request.method.toUpperCase(),
+        path: url.pathname,
+        query: url.search.replace(/^\?/, ""),
+        url: request.url,
+        host: url.host,
+        timestamp,
+        date: now.toISOString(),
+        body: request.body?.toString() || "",
+        bodySha256: sha256Hex(request.body ?? ""),
+      };
+
+      const canonical = template.replace(/\\n/g, "\n").replace(/\{(header:)?([^}]+)\}/g, (match, isHeader, name) => {
+        if (isHeader) {
+          const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase());
+          return entry?.[1] || "";
+        }
+        return values[name] ?? match;
+      });
+
+      const signature = createHmac("sha256", secret).update(canonical).digest(encoding);
+      return { ...added, [header]: valueTemplate.replace(/\{signature\}/g, signature) };
+    },
+  };
+}
+
+/**
+ * HTTP Digest (RFC 7616). Nothing is sent up front, the 401 challenge is answered on a retry.
+ */
+function createDigestSigner(profile: AuthProfile, password: string): RequestSigner {
+  const username = profile.username || "";
+
+  return {
+    sign() {
+      return {};
+    },
+    respondToChallenge(request, challenge) {
+      const params = parseDigestChallenge(challenge);
+      if (!params) return undefined;
+
+      const algorithm = (params.algorithm || "MD5").toUpperCase();
+      const hashName = algorithm.startsWith("SHA-256") ? "sha256" : "md5";
+      const hash = (data: string) => createHash(hashName).update(data).digest("hex");
+
+      const url = new URL(request.url);
+      const uri = `${url.pathname}${url.search}`;
+      const cnonce = randomBytes(8).toString("hex");
+      const nc = "00000001";
+      const qop = params.qop
+        ?.split(",")
+        .map((option) => option.trim())
+        .find((option) => option === "auth");
+
+      let ha1 = hash(`${username}:${params.realm}:${password}`);
+      if (algorithm.endsWith("-SESS")) {
+        ha1 = hash(`${ha1}:${params.nonce}:${cnonce}`);
+      }
+      const ha2 = hash(`${request.method.toUpperCase()}:${uri}`);
+      const response = qop
+        ? hash(`${ha1}:${params.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+        : hash(`${ha1}:${params.nonce}:${ha2}`);
+
+      const fields = [
+        `username="${username}"`,
+        `realm="${params.realm}"`,
+        `nonce="${params.nonce}"`,
+        `uri="${uri}"`,
+        `algorithm=${params.algorithm || "MD5"}`,
+        `response="${response}"`,
+        ...(qop ? [`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`] : []),
+        ...(params.opaque ? [`opaque="${params.opaque}"`] : []),
+      ];
+      return { Authorization: `Digest ${fields.join(", ")}` };
+    },
+    curlArgs: [["--digest"], ["-u", `${username}:${password}`]],
+  };
+}
+
+function parseDigestChallenge(challenge: string): Record<string, string> | undefined {
+  const match = /Digest\s+(.*)/i.exec(challenge);
+  if (!match) return undefined;
+
+  const params: Record<string, string> = {};
+  for (const [, key, quoted, bare] of match[1].matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]*))/g)) {
+    params[key.toLowerCase()] = quoted ?? bare;
+  }
+  return params.nonce ? params : undefined;
+}
@@ -0,0 +1,467 @@
+import { generateCurlFromRequest } from "./curl-generator";
+import { getSignedHeaders, SnippetRequest } from "./snippet-request";
+import { quoteShellArg } from "./shell-quote";
+
+export type SnippetLanguage = "curl" | "fetch" | "axios" | "python" | "go" | "httpie" | "wget" | "powershell";
+
+export interface SnippetGenerator {
+  language: SnippetLanguage;
+  title: string;
+  generate: (request: SnippetRequest) => string;
+}
+
+export const SNIPPET_GENERATORS: SnippetGenerator[] = [
+  { language: "curl", title: "cURL", generate: generateCurlFromRequest },
+  { language: "fetch", title: "JavaScript fetch", generate: generateFetch },
+  { language: "axios", title: "Node axios", generate: generateAxios },
+  { language: "python", title: "Python requests", generate: generatePython },
+  { language: "go", title: "Go net/http", generate: generateGo },
+  { language: "httpie", title: "HTTPie", generate: generateHttpie },
+  { language: "wget", title: "wget", generate: generateWget },
+  { language: "powershell", title: "PowerShell", generate: generatePowerShell },
+];
+
+export const DEFAULT_SNIPPET_LANGUAGE: SnippetLanguage = "curl";
+
+export function getSnippetGenerator(language: SnippetLanguage): SnippetGenerator {
+  return SNIPPET_GENERATORS.find((generator) => generator.language === language) || SNIPPET_GENERATORS[0];
+}
+
+/**
+ * Parse a body as JSON so it can be written as a native literal, undefined for anything else
+ */
+function parseJsonBody(body: string | undefined): unknown {
+  if (body === undefined) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed === "object" && parsed !== null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function indent(text: string, prefix: string): string {
+  return text.replace(/\n/g, `\n${prefix}`);
+}
+
+function basename(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+// JSON string literals are valid JavaScript, Python and Go strings
+const quoteString = (value: string) => JSON.stringify(value);
+// HTTPie and wget examples are written for POSIX shells
+const quoteShell = (value: string) => quoteShellArg(value, "posix");
+const quotePowerShell = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+function digestNote(comment: string, request: SnippetRequest): string[] {
+  return request.digest
+    ? [`${comment} Digest auth isn't built in, answer the 401 challenge with an Authorization header`]
+    : [];
+}
+
+function jsObject(entries: [string, string][], prefix: string): string {
+  if (entries.length === 0) return "{}";
+  const lines = entries.map(([key, value]) => `${prefix}  ${quoteString(key)}: ${value},`);
+  return `{\n${lines.join("\n")}\n${prefix}}`;
+}
+
+/**
+ * Body setup lines and the expression to send, shared by fetch and axios
+ */
+function getJsBody(
+  request: SnippetRequest,
+  stringifyJson: boolean,
+): { setup: string[]; value?: string; imports: string[] } {
+  const { form } = request;
+  if (form?.multipart) {
+    const hasFiles = form.fields.some((field) => field.file);
+    const setup = [
+      "const form = new FormData();",
+      ...form.fields.map((field) =>
+        field.file
+          ? `form.append(${quoteString(field.name)}, await openAsBlob(${quoteString(field.value)}), ${quoteString(basename(field.value))});`
+          : `form.append(${quoteString(field.name)}, ${quoteString(field.value)});`,
+      ),
+    ];
+    return { setup, value: "form", imports: hasFiles ? ['import { openAsBlob } from "node:fs";'] : [] };
+  }
+  if (form) {
+    const pairs = form.fields.map((field) => `  [${quoteString(field.name)}, ${quoteString(field.value)}],`);
+    return { setup: [], value: `new URLSearchParams([\n${pairs.join("\n")}\n])`, imports: [] };
+  }
+
+  // Signatures cover the exact body bytes, re-serializing the JSON would change them
+  const json = request.signer ? undefined : parseJsonBody(request.body);
+  if (json !== undefined) {
+    const literal = JSON.stringify(json, null, 2);
+    return { setup: [], value: stringifyJson ? `JSON.stringify(${literal})` : literal, imports: [] };
+  }
+  return { setup: [], value: request.body !== undefined ? quoteString(request.body) : undefined, imports: [] };
+}
+
+function generateFetch(request: SnippetRequest): string {
+  const headers = getSignedHeaders(request);
+  const body = getJsBody(request, true);
+  const options: string[] = [];
+
+  if (request.method !== "GET") {
+    options.push(`method: ${quoteString(request.method)},`);
+  }
+  if (Object.keys(headers).length > 0) {
+    options.push(
+      `headers: ${jsObject(
+        Object.entries(headers).map(([name, value]) => [name, quoteString(value)]),
+        "  ",
+      )},`,
+    );
+  }
+  if (body.value) {
+    options.push(`body: ${indent(body.value, "  ")},`);
+  }
+
+  const args = options.length > 0 ? `, {\n  ${options.join("\n  ")}\n}` : "";
+  return [
+    ...body.imports,
+    ...(body.imports.length > 0 ? [""] : []),
+    ...digestNote("//", request),
+    ...body.setup,
+    ...(body.setup.length > 0 ? [""] : []),
+    `const response = await fetch(${quoteString(request.url)}${args});`,
+    "console.log(response.status, await response.text());",
+  ].join("\n");
+}
+
+function generateAxios(request: SnippetRequest): string {
+  const headers = getSignedHeaders(request);
+  const body = getJsBody(request, false);
+  const options = [`method: ${quoteString(request.method.toLowerCase())},`, `url: ${quoteString(request.url)},`];
+
+  if (Object.keys(headers).length > 0) {
+    options.push(
+      `headers: ${jsObject(
+        Object.entries(headers).map(([name, value]) => [name, quoteString(value)]),
+        "  ",
+      )},`,
+    );
+  }
+  if (body.value) {
+    options.push(`data: ${indent(body.value, "  ")},`);
+  }
+
+  return [
+    'import axios from "axios";',
+    ...body.imports,
+    "",
+    ...digestNote("//", request),
+    ...body.setup,
+    ...(body.setup.length > 0 ? [""] : []),
+    `const response = await axios({\n  ${options.join("\n  ")}\n});`,
+    "console.log(response.status, response.data);",
+  ].join("\n");
+}
+
+/**
+ * Write parsed JSON as a Python literal
+ */
+function pythonLiteral(value: unknown, prefix: string): string {
+  if (value === null) return "None";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (typeof value === "string") return quoteString(value);
+  if (typeof value !== "object") return String(value);
+
+  const inner = `${prefix}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map((item) => `${inner}${pythonLiteral(item, inner)},`).join("\n")}\n${prefix}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries.map(([key, item]) => `${inner}${quoteString(key)}: ${pythonLiteral(item, inner)},`).join("\n")}\n${prefix}}`;
+}
+
+const PYTHON_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+function generatePython(request: SnippetRequest): string {
+  const headers = getSignedHeaders(request);
+  const args: string[] = [];
+  const imports = ["import requests"];
+
+  if (PYTHON_METHODS.includes(request.method)) {
+    args.push(quoteString(request.url));
+  } else {
+    args.push(quoteString(request.method), quoteString(request.url));
+  }
+  if (Object.keys(headers).length > 0) {
+    args.push(`headers=${pythonLiteral(headers, "    ")}`);
+  }
+
+  const { form } = request;
+  if (form?.multipart) {
+    // A files list sends multipart even without files, (None, value) tuples are plain fields
+    const files = form.fields.map((field) =>
+      field.file
+        ? `        (${quoteString(field.name)}, open(${quoteString(field.value)}, "rb")),`
+        : `        (${quoteString(field.name)}, (None, ${quoteString(field.value)})),`,
+    );
+    args.push(`files=[\n${files.join("\n")}\n    ]`);
+  } else if (form) {
+    const pairs = form.fields.map((field) => `        (${quoteString(field.name)}, ${quoteString(field.value)}),`);
+    args.push(`data=[\n${pairs.join("\n")}\n    ]`);
+  } else {
+    // Signatures cover the exact body bytes, json= would send them with different spacing
+    const json = request.signer ? undefined : parseJsonBody(request.body);
+    if (json !== undefined) {
+      args.push(`json=${pythonLiteral(json, "    ")}`);
+    } else if (request.body !== undefined) {
+      // Encode as UTF-8 like the signer, requests would send a str as Latin-1
+      args.push(`data=${quoteString(request.body)}${request.signer ? ".encode()" : ""}`);
+    }
+  }
+
+  if (request.digest) {
+    imports.push("from requests.auth import HTTPDigestAuth");
+    args.push(`auth=HTTPDigestAuth(${quoteString(request.digest.username)}, ${quoteString(request.digest.password)})`);
+  }
+
+  const call = PYTHON_METHODS.includes(request.method)
+    ? `requests.${request.method.toLowerCase()}`
+    : "requests.request";
+  return [
+    ...imports,
+    "",
+    `response = ${call}(\n    ${args.join(",\n    ")},\n)`,
+    "print(response.status_code, response.text)",
+  ].join("\n");
+}
+
+function goString(value: string): string {
+  return value.includes("`") ? quoteString(value) : `\`${value}\``;
+}
+
+function generateGo(request: SnippetRequest): string {
+  const headers = getSignedHeaders(request);
+  const imports = new Set(["fmt", "io", "net/http"]);
+  const setup: string[] = [];
+  const headerLines: string[] = [];
+  let bodyVar = "nil";
+  let needsAttachFile = false;
+
+  const { form } = request;
+  if (form?.multipart) {
+    imports.add("bytes").add("mime/multipart");
+    setup.push("body := &bytes.Buffer{}", "writer := multipart.NewWriter(body)");
+    for (const field of form.fields) {
+      if (field.file) {
+        needsAttachFile = true;
+        setup.push(
+          `if err := attachFile(writer, ${quoteString(field.name)}, ${quoteString(field.value)}); err != nil {`,
+          "\tpanic(err)",
+          "}",
+        );
+      } else {
+        setup.push(`writer.WriteField(${quoteString(field.name)}, ${quoteString(field.value)})`);
+      }
+    }
+    setup.push("writer.Close()");
+    headerLines.push('req.Header.Set("Content-Type", writer.FormDataContentType())');
+    bodyVar = "body";
+  } else if (form) {
+    imports.add("net/url").add("strings");
+    setup.push("form := url.Values{}");
+    form.fields.forEach((field) => setup.push(`form.Add(${quoteString(field.name)}, ${quoteString(field.value)})`));
+    setup.push("body := strings.NewReader(form.Encode())");
+    headerLines.push('req.Header.Set("Content-Type", "application/x-www-form-urlencoded")');
+    bodyVar = "body";
+  } else if (request.body !== undefined) {
+    imports.add("strings");
+    setup.push(`body := strings.NewReader(${goString(request.body)})`);
+    bodyVar = "body";
+  }
+
+  if (needsAttachFile) {
+    imports.add("os").add("path/filepath");
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    headerLines.push(`req.Header.Set(${quoteString(name)}, ${quoteString(value)})`);
+  }
+
+  const main = [
+    ...digestNote("//", request),
+    ...setup,
+    ...(setup.length > 0 ? [""] : []),
+    `req, err := http.NewRequest(${quoteString(request.method)}, ${quoteString(request.url)}, ${bodyVar})`,
+    "if err != nil {",
+    "\tpanic(err)",
+    "}",
+    ...headerLines,
+    "",
+    "res, err := http.DefaultClient.Do(req)",
+    "if err != nil {",
+    "\tpanic(err)",
+    "}",
+    "defer res.Body.Close()",
+    "",
+    "data, err := io.ReadAll(res.Body)",
+    "if err != nil {",
+    "\tpanic(err)",
+    "}",
+    "fmt.Println(res.Status)",
+    "fmt.Println(string(data))",
+  ];
+
+  const lines = [
+    "package main",
+    "",
+    "import (",
+    ...[...imports].sort().map((name) => `\t"${name}"`),
+    ")",
+    "",
+    "func main() {",
+    ...main.map((line) => (line ? `\t${line}` : line)),
+    "}",
+  ];
+
+  if (needsAttachFile) {
+    lines.push(
+      "",
+      "func attachFile(writer *multipart.Writer, field, path string) error {",
+      "\tfile, err := os.Open(path)",
+      "\tif err != nil {",
+      "\t\treturn err",
+      "\t}",
+      "\tdefer file.Close()",
+      "",
+      "\tpart, err := writer.CreateFormFile(field, filepath.Base(path))",
+      "\tif err != nil {",
+      "\t\treturn err",
+      "\t}",
+      "\t_, err = io.Copy(part, file)",
+      "\treturn err",
+      "}",
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function generateHttpie(request: SnippetRequest): string {
+  const headers = getSignedHeaders(request);
+  const { form } = request;
+  const command = ["http"];
+
+  if (form) {
+    command.push(form.multipart ? "--multipart" : "--form");
+  }
+  if (request.digest) {
+    command.push(`-A digest -a ${quoteShell(`${request.digest.username}:${request.digest.password}`)}`);
+  }
+  command.push(request.method, quoteShell(request.url));
+
+  const parts = [command.join(" ")];
+  for (const [name, value] of Object.entries(headers)) {
+    parts.push(quoteShell(`${name}:${value}`));
+  }
+  for (const field of form?.fields || []) {
+    // A leading @ after = would embed a file's contents
+    const item = field.file ? `${field.name}@${field.value}` : `${field.name}=${field.value.replace(/^@/, "\\@")}`;
+    parts.push(quoteShell(item));
+  }
+  if (!form && request.body !== undefined) {
+    parts.push(`--raw ${quoteShell(request.body)}`);
+  }
+
+  return parts.join(" \\\n  ");
+}
+
+function generateWget(request: SnippetRequest): string {
+  const headers = { ...getSignedHeaders(request) };
+  const parts = ["wget"];
+  const notes: string[] = [];
+  const { form } = request;
+
+  if (request.method !== "GET") {
+    parts.push(`--method=${request.method}`);
+  }
+  if (form && !form.multipart) {
+    headers["Content-Type"] = "application/x-www-form-urlencoded";
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    parts.push(`--header=${quoteShell(`${name}: ${value}`)}`);
+  }
+
+  if (form?.multipart) {
+    notes.push("# wget can't build multipart forms, prepare the body yourself and send it with --body-file");
+  } else if (form) {
+    const data = form.fields
+      .map((field) => `${encodeURIComponent(field.name)}=${encodeURIComponent(field.value)}`)
+      .join("&");
+    parts.push(`--body-data=${quoteShell(data)}`);
+  } else if (request.body !== undefined) {
+    parts.push(`--body-data=${quoteShell(request.body)}`);
+  }
+
+  if (request.digest) {
+    parts.push(`--user=${quoteShell(request.digest.username)}`, `--password=${quoteShell(request.digest.password)}`);
+  }
+  parts.push("-qO-", quoteShell(request.url));
+
+  return [...notes, parts.join(" \\\n  ")].join("\n");
+}
+
+function generatePowerShell(request: SnippetRequest): string {
+  const headers = { ...getSignedHeaders(request) };
+  const lines: string[] = [...digestNote("#", request)];
+  const method = request.method.charAt(0) + request.method.slice(1).toLowerCase();
+  const args = [`-Uri ${quotePowerShell(request.url)}`, `-Method ${method}`];
+
+  // Invoke-RestMethod wants the content type as a parameter rather than a header
+  const contentTypeKey = Object.keys(headers).find((name) => name.toLowerCase() === "content-type");
+  const contentType = contentTypeKey ? headers[contentTypeKey] : undefined;
+  if (contentTypeKey) {
+    delete headers[contentTypeKey];
+  }
+
+  if (Object.keys(headers).length > 0) {
+    lines.push(
+      "$headers = @{",
+      ...Object.entries(headers).map(([name, value]) => `    ${quotePowerShell(name)} = ${quotePowerShell(value)}`),
+      "}",
+    );
+    args.push("-Headers $headers");
+  }
+
+  const { form } = request;
+  if (form) {
+    // Repeated fields become arrays
+    const values = new Map<string, string[]>();
+    for (const field of form.fields) {
+      const value = field.file ? `(Get-Item -Path ${quotePowerShell(field.value)})` : quotePowerShell(field.value);
+      values.set(field.name, [...(values.get(field.name) || []), value]);
+    }
+    lines.push(
+      "$form = @{",
+      ...[...values].map(
+        ([name, items]) => `    ${quotePowerShell(name)} = ${items.length > 1 ? `@(${items.join(", ")})` : items[0]}`,
+      ),
+      "}",
+    );
+    if (form.multipart) {
+      args.push("-Form $form");
+    } else {
+      args.push("-ContentType 'application/x-www-form-urlencoded'", "-Body $form");
+    }
+  } else if (request.body !== undefined) {
+    lines.push("$body = @'", request.body, "'@");
+    if (contentType) {
+      args.push(`-ContentType ${quotePowerShell(contentType)}`);
+    }
+    args.push("-Body $body");
+  }
+
+  if (lines.length > 0) {
+    lines.push("");
+  }
+  lines.push(`$response = Invoke-RestMethod ${args.join(" ")}`, "$response | ConvertTo-Json -Depth 10");
+  return lines.join("\n");
+}
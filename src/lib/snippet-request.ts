@@ -0,0 +1,120 @@
+import { ConnectionSettings, ParsedEndpoint } from "../types/openapi";
+import type { CurlOptions } from "./curl-generator";
+import { getHeaderParams, getRequestBodyContentType } from "./openapi-parser";
+import { generateExampleBody } from "./example-generator";
+import { FormSnippetField, getFormBodyFields, getFormSnippetFields } from "./form-body";
+import { appendQueryParams, buildRequestUrl, serializeHeaderParameter } from "./url-builder";
+import { applyAuth } from "./auth";
+import { getRequestSigner, RequestSigner } from "./signers";
+import { substituteValues, substituteVariables } from "./environments";
+
+/**
+ * A fully assembled request that snippet generators render into code
+ */
+export interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Raw body, JSON or otherwise */
+  body?: string;
+  /** Form body, sent instead of a raw body */
+  form?: { multipart: boolean; fields: FormSnippetField[] };
+  /** Digest credentials, for generators whose HTTP client answers the challenge itself */
+  digest?: { username: string; password: string };
+  signer?: RequestSigner;
+  connection?: ConnectionSettings;
+}
+
+/**
+ * Assemble the URL, auth, header parameters and body for an endpoint.
+ * Missing values become {name} placeholders and a missing token becomes <YOUR_TOKEN>.
+ * {{variables}} are filled in from the active environment.
+ */
+export function buildSnippetRequest(endpoint: ParsedEndpoint, options: CurlOptions): SnippetRequest {
+  const { baseUrl, authToken, variables } = options;
+  const paramValues = substituteValues(options.paramValues || {}, variables);
+  const headers: Record<string, string> = substituteValues(options.extraHeaders || {}, variables);
+  const extraQuery = (options.extraQuery || []).map(([name, value]): [string, string] => [
+    name,
+    substituteVariables(value, variables),
+  ]);
+
+  // Add auth header, query parameter or cookie, with a placeholder when the endpoint needs a token
+  let url = appendQueryParams(buildRequestUrl(baseUrl, endpoint, paramValues, { placeholders: true }), extraQuery);
+  if (authToken || endpoint.hasAuth) {
+    const auth = applyAuth(options, authToken || "<YOUR_TOKEN>");
+    Object.assign(headers, auth.headers);
+    url = appendQueryParams(url, auth.query, Boolean(authToken));
+  }
+
+  // Add custom header parameters - only include those with values or required ones
+  for (const param of getHeaderParams(endpoint)) {
+    const value = paramValues[param.name];
+    if (value) {
+      headers[param.name] = serializeHeaderParameter(param, value);
+    } else if (param.required) {
+      headers[param.name] = `{${param.name}}`;
+    }
+  }
+
+  const request: SnippetRequest = { method: endpoint.method, url, headers, connection: options.connection };
+
+  // Add the body (use spec-defined content type or default to application/json)
+  if (endpoint.requestBody && ["POST", "PUT", "PATCH"].includes(endpoint.method)) {
+    const contentType = getRequestBodyContentType(endpoint) || "application/json";
+    const formFields = getFormBodyFields(endpoint);
+
+    if (formFields.length > 0) {
+      // Form clients set the Content-Type themselves, including the multipart boundary
+      request.form = {
+        multipart: !contentType.startsWith("application/x-www-form-urlencoded"),
+        fields: getFormSnippetFields(
+          contentType,
+          formFields,
+          options.formValues && substituteValues(options.formValues, variables),
+        ),
+      };
+    } else {
+      headers["Content-Type"] = contentType;
+      // Use custom body JSON if provided, otherwise use example or placeholder
+      request.body = options.bodyJson
+        ? substituteVariables(options.bodyJson, variables)
+        : options.includeExampleBody
+          ? generateExampleBody(endpoint)
+          : "<REQUEST_BODY>";
+    }
+  }
+
+  if (options.signing) {
+    const secret = authToken || "<YOUR_SECRET>";
+    request.signer = getRequestSigner(options.signing, secret);
+    if (options.signing.type === "digest") {
+      request.digest = { username: options.signing.username || "", password: secret };
+    }
+  }
+
+  return request;
+}
+
+/**
+ * Headers with the signature added, for generators that can't sign requests themselves.
+ * Signatures computed here are only valid for a short while.
+ */
+export function getSignedHeaders(request: SnippetRequest): Record<string, string> {
+  if (!request.signer) {
+    return request.headers;
+  }
+  try {
+    const signed = request.signer.sign({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: request.body,
+      hasUnhashableBody: !!request.form,
+    });
+    return { ...request.headers, ...signed };
+  } catch {
+    // URLs with unresolved server variables can't be parsed and form bodies can't be hashed, leave them unsigned
+    return request.headers;
+  }
+}
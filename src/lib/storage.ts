@@ -1,11 +1,24 @@
 import { LocalStorage } from "@raycast/api";
-import { StoredSpec, OpenAPISpec, RequestHistoryEntry } from "../types/openapi";
-import SwaggerParser from "@apidevtools/swagger-parser";
+import {
+  ConnectionSettings,
+  StoredSpec,
+  OpenAPISpec,
+  RequestHistoryEntry,
+  SavedRequest,
+  Swagger2Spec,
+} from "../types/openapi";
+import { normalizeSpec, resolveServerUrls } from "./openapi-parser";
+import { fetchWithConnection, hasConnectionSettings } from "./http-client";
+import { DEFAULT_SNIPPET_LANGUAGE, SNIPPET_GENERATORS, SnippetLanguage } from "./snippet-generators";
+import SwaggerParser, { FileInfo } from "@apidevtools/swagger-parser";
 
 const SPECS_KEY = "openapi-specs";
 const SPEC_CACHE_PREFIX = "spec-cache-";
 const REQUEST_HISTORY_KEY = "request-history";
 const MAX_HISTORY_ENTRIES = 100;
+const SNIPPET_LANGUAGE_KEY = "snippet-language";
+const SAVED_REQUESTS_KEY = "saved-requests";
+const SESSION_VARIABLES_PREFIX = "session-variables-";
 
 // Generate a unique ID for specs
 export function generateSpecId(): string {
@@ -86,8 +99,9 @@ export async function deleteSpec(id: string): Promise<boolean> {
   if (filtered.length === specs.length) return false;
 
   await LocalStorage.setItem(SPECS_KEY, JSON.stringify(filtered));
-  // Also clear the cached spec content
+  // Also clear the cached spec content and extracted variables
   await LocalStorage.removeItem(`${SPEC_CACHE_PREFIX}${id}`);
+  await LocalStorage.removeItem(`${SESSION_VARIABLES_PREFIX}${id}`);
 
   return true;
 }
@@ -98,28 +112,41 @@ export async function cacheSpec(specId: string, spec: OpenAPISpec): Promise<void
 }
 
 // Get cached spec
+// Specs cached before Swagger 2 normalization existed are normalized on read
 export async function getCachedSpec(specId: string): Promise<OpenAPISpec | null> {
   const cached = await LocalStorage.getItem<string>(`${SPEC_CACHE_PREFIX}${specId}`);
   if (!cached) return null;
   try {
-    return JSON.parse(cached);
+    return normalizeSpec(JSON.parse(cached));
   } catch {
     return null;
   }
 }
 
 // Fetch and optionally cache an OpenAPI spec from URL
-// Uses swagger-parser to dereference all $refs
-export async function fetchSpec(url: string, specId?: string): Promise<OpenAPISpec> {
+// Uses swagger-parser to dereference all $refs, downloading through the spec's connection settings when set
+export async function fetchSpec(url: string, specId?: string, connection?: ConnectionSettings): Promise<OpenAPISpec> {
   try {
     // SwaggerParser.dereference fetches, parses, and resolves all $refs
-    const spec = (await SwaggerParser.dereference(url)) as OpenAPISpec;
-
-    // Validate it looks like an OpenAPI spec
-    if (!spec.paths || (!spec.openapi && !spec.swagger)) {
+    // Connection settings are for private networks, so internal hosts are allowed then
+    const options: SwaggerParser.Options = hasConnectionSettings(connection)
+      ? {
+          resolve: {
+            http: { safeUrlResolver: false, read: (file: FileInfo) => readUrl(file.url, connection) },
+          },
+        }
+      : {};
+    const dereferenced = (await SwaggerParser.dereference(url, options)) as OpenAPISpec | Swagger2Spec;
+
+    // Validate it looks like an OpenAPI spec (3.1 specs may only define webhooks)
+    const hasPaths = dereferenced.paths || ("webhooks" in dereferenced && dereferenced.webhooks);
+    if (!hasPaths || (!("openapi" in dereferenced && dereferenced.openapi) && !dereferenced.swagger)) {
       throw new Error("Invalid OpenAPI specification: missing paths or version field");
     }
 
+    // Convert Swagger 2.0 documents into the OpenAPI 3 shape, with server URLs relative to the spec URL resolved
+    const spec = resolveServerUrls(normalizeSpec(dereferenced), url);
+
     // Cache if we have a spec ID
     if (specId) {
       await cacheSpec(specId, spec);
@@ -134,6 +161,14 @@ export async function fetchSpec(url: string, specId?: string): Promise<OpenAPISp
   }
 }
 
+async function readUrl(url: string, connection: ConnectionSettings): Promise<Buffer> {
+  const res = await fetchWithConnection(url, {}, connection);
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status} ${res.statusText} fetching ${url}`);
+  }
+  return Buffer.from(await res.arrayBuffer());
+}
+
 // Generate a unique ID for request history entries
 export function generateHistoryId(): string {
   return `req-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
@@ -188,10 +223,107 @@ export async function clearRequestHistory(): Promise<void> {
   await LocalStorage.removeItem(REQUEST_HISTORY_KEY);
 }
 
-// Mask sensitive values in headers (like auth tokens)
-export function maskSensitiveHeaders(headers: Record<string, string>): Record<string, string> {
+// Generate a unique ID for saved requests
+export function generateSavedRequestId(): string {
+  return `saved-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Get all saved requests
+export async function getSavedRequests(): Promise<SavedRequest[]> {
+  const savedJson = await LocalStorage.getItem<string>(SAVED_REQUESTS_KEY);
+  if (!savedJson) return [];
+  try {
+    return JSON.parse(savedJson);
+  } catch {
+    return [];
+  }
+}
+
+// Save a new request, or overwrite the saved request with the given ID
+export async function saveRequest(
+  request: Omit<SavedRequest, "id" | "createdAt" | "updatedAt">,
+  id?: string,
+): Promise<SavedRequest> {
+  const saved = await getSavedRequests();
+  const index = saved.findIndex((r) => r.id === id);
+  const now = new Date().toISOString();
+
+  const newRequest: SavedRequest = {
+    ...request,
+    id: id || generateSavedRequestId(),
+    createdAt: index === -1 ? now : saved[index].createdAt,
+    updatedAt: now,
+  };
+
+  if (index === -1) {
+    saved.push(newRequest);
+  } else {
+    saved[index] = newRequest;
+  }
+  await LocalStorage.setItem(SAVED_REQUESTS_KEY, JSON.stringify(saved));
+
+  return newRequest;
+}
+
+// Delete a saved request
+export async function deleteSavedRequest(id: string): Promise<boolean> {
+  const saved = await getSavedRequests();
+  const filtered = saved.filter((r) => r.id !== id);
+
+  if (filtered.length === saved.length) return false;
+
+  await LocalStorage.setItem(SAVED_REQUESTS_KEY, JSON.stringify(filtered));
+  return true;
+}
+
+// Get the variables extracted from responses for a spec
+export async function getSessionVariables(specId: string): Promise<Record<string, string>> {
+  const variablesJson = await LocalStorage.getItem<string>(`${SESSION_VARIABLES_PREFIX}${specId}`);
+  if (!variablesJson) return {};
+  try {
+    return JSON.parse(variablesJson);
+  } catch {
+    return {};
+  }
+}
+
+// Replace the session variables for a spec
+export async function setSessionVariables(specId: string, variables: Record<string, string>): Promise<void> {
+  await LocalStorage.setItem(`${SESSION_VARIABLES_PREFIX}${specId}`, JSON.stringify(variables));
+}
+
+// Clear the session variables for a spec
+export async function clearSessionVariables(specId: string): Promise<void> {
+  await LocalStorage.removeItem(`${SESSION_VARIABLES_PREFIX}${specId}`);
+}
+
+// Get the language used by the default "Copy as" action
+export async function getPreferredSnippetLanguage(): Promise<SnippetLanguage> {
+  const language = await LocalStorage.getItem<string>(SNIPPET_LANGUAGE_KEY);
+  const generator = SNIPPET_GENERATORS.find((g) => g.language === language);
+  return generator ? generator.language : DEFAULT_SNIPPET_LANGUAGE;
+}
+
+// Remember the last language a snippet was copied as
+export async function setPreferredSnippetLanguage(language: SnippetLanguage): Promise<void> {
+  await LocalStorage.setItem(SNIPPET_LANGUAGE_KEY, language);
+}
+
+// Mask sensitive values in headers (like auth tokens), plus any extra header names such as a custom API key header
+export function maskSensitiveHeaders(
+  headers: Record<string, string>,
+  extraSensitiveHeaders: string[] = [],
+): Record<string, string> {
   const masked = { ...headers };
-  const sensitiveHeaders = ["authorization", "x-api-key", "api-key", "token", "bearer"];
+  const sensitiveHeaders = [
+    "authorization",
+    "x-api-key",
+    "api-key",
+    "token",
+    "bearer",
+    "cookie",
+    ...extraSensitiveHeaders.map((h) => h.toLowerCase()),
+  ];
 
   for (const key of Object.keys(masked)) {
     if (sensitiveHeaders.some((h) => key.toLowerCase().includes(h))) {
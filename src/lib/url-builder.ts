@@ -0,0 +1,204 @@
+import { Parameter, ParameterStyle, ParsedEndpoint } from "../types/openapi";
+import { getPathParams, getPrimaryType, getQueryParams, resolveSchema } from "./openapi-parser";
+
+type ParameterValue = string | string[] | Record<string, string>;
+
+export interface BuildUrlOptions {
+  /** Keep {name} placeholders for required query parameters without a value, for copyable commands */
+  placeholders?: boolean;
+}
+
+/**
+ * Build the full request URL for an endpoint, serializing path and query parameters
+ * according to their style, explode and allowReserved settings.
+ * Path parameters without a value are left as {name}.
+ */
+export function buildRequestUrl(
+  baseUrl: string,
+  endpoint: ParsedEndpoint,
+  paramValues: Record<string, string>,
+  options: BuildUrlOptions = {},
+): string {
+  let path = endpoint.path;
+  for (const param of getPathParams(endpoint)) {
+    const raw = paramValues[param.name];
+    if (raw) {
+      const serialized = serializePathParameter(param, raw);
+      path = path.replace(`{${param.name}}`, () => serialized);
+    }
+  }
+
+  const queryParts: string[] = [];
+  for (const param of getQueryParams(endpoint)) {
+    const raw = paramValues[param.name];
+    if (raw) {
+      queryParts.push(...serializeQueryParameter(param, raw));
+    } else if (options.placeholders && param.required) {
+      queryParts.push(`${param.name}={${param.name}}`);
+    }
+  }
+
+  const url = `${baseUrl}${path}`;
+  return queryParts.length > 0 ? `${url}?${queryParts.join("&")}` : url;
+}
+
+/**
+ * Parse raw input into the shape of the parameter schema.
+ * Arrays are comma-separated, objects are JSON or comma-separated key=value pairs.
+ */
+export function parseParameterValue(param: Parameter, raw: string): ParameterValue {
+  const type = param.schema ? getPrimaryType(resolveSchema(param.schema)) : undefined;
+
+  if (type === "array") {
+    return raw
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (type === "object") {
+    return parseObjectValue(raw);
+  }
+  return raw;
+}
+
+function parseObjectValue(raw: string): Record<string, string> {
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      return Object.fromEntries(
+        Object.entries(parsed).map(([key, value]) => [key, typeof value === "string" ? value : JSON.stringify(value)]),
+      );
+    }
+  } catch {
+    // Not JSON, read as key=value pairs
+  }
+
+  const result: Record<string, string> = {};
+  for (const pair of raw.split(",")) {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      result[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+    }
+  }
+  return result;
+}
+
+function getStyle(param: Parameter): ParameterStyle {
+  return param.style || (param.in === "query" || param.in === "cookie" ? "form" : "simple");
+}
+
+function getExplode(param: Parameter): boolean {
+  return param.explode ?? getStyle(param) === "form";
+}
+
+const RESERVED_ESCAPES = /%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi;
+
+function encode(value: string, allowReserved = false): string {
+  const encoded = encodeURIComponent(value);
+  return allowReserved ? encoded.replace(RESERVED_ESCAPES, (escape) => decodeURIComponent(escape)) : encoded;
+}
+
+/**
+ * Serialize a path parameter with the simple, label or matrix style
+ */
+export function serializePathParameter(param: Parameter, raw: string): string {
+  const value = parseParameterValue(param, raw);
+  const style = getStyle(param);
+  const explode = getExplode(param);
+  const name = encode(param.name);
+  const prefix = style === "label" ? "." : "";
+  // Exploded label values are dot-separated, everything else is comma-separated
+  const separator = style === "label" && explode ? "." : ",";
+
+  if (typeof value === "string") {
+    return style === "matrix" ? `;${name}=${encode(value)}` : `${prefix}${encode(value)}`;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => encode(item));
+    if (style === "matrix") {
+      return explode ? items.map((item) => `;${name}=${item}`).join("") : `;${name}=${items.join(",")}`;
+    }
+    return `${prefix}${items.join(separator)}`;
+  }
+
+  const entries = Object.entries(value).map(([key, item]) => [encode(key), encode(item)]);
+  if (explode) {
+    const pairs = entries.map(([key, item]) => `${key}=${item}`);
+    return style === "matrix" ? pairs.map((pair) => `;${pair}`).join("") : `${prefix}${pairs.join(separator)}`;
+  }
+  const flat = entries.flat().join(",");
+  return style === "matrix" ? `;${name}=${flat}` : `${prefix}${flat}`;
+}
+
+/**
+ * Serialize a query parameter into name=value parts with the form, spaceDelimited,
+ * pipeDelimited or deepObject style
+ */
+export function serializeQueryParameter(param: Parameter, raw: string): string[] {
+  const value = parseParameterValue(param, raw);
+  const style = getStyle(param);
+  const explode = getExplode(param);
+  const name = encode(param.name);
+  const encodeValue = (item: string) => encode(item, param.allowReserved);
+  const separator = style === "spaceDelimited" ? "%20" : style === "pipeDelimited" ? "|" : ",";
+
+  if (typeof value === "string") {
+    return [`${name}=${encodeValue(value)}`];
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [];
+    return explode
+      ? value.map((item) => `${name}=${encodeValue(item)}`)
+      : [`${name}=${value.map(encodeValue).join(separator)}`];
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return [];
+  if (style === "deepObject") {
+    return entries.map(([key, item]) => `${name}[${encode(key)}]=${encodeValue(item)}`);
+  }
+  if (explode) {
+    return entries.map(([key, item]) => `${encode(key)}=${encodeValue(item)}`);
+  }
+  return [`${name}=${entries.flat().map(encodeValue).join(separator)}`];
+}
+
+/**
+ * Serialize a header parameter with the simple style
+ */
+export function serializeHeaderParameter(param: Parameter, raw: string): string {
+  const value = parseParameterValue(param, raw);
+
+  if (typeof value === "string") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.join(",");
+  }
+  return getExplode(param)
+    ? Object.entries(value)
+        .map(([key, item]) => `${key}=${item}`)
+        .join(",")
+    : Object.entries(value).flat().join(",");
+}
+
+/**
+ * Append already-known query parameters, such as an API key, to a built URL.
+ * Pass name and value pairs to repeat a parameter.
+ * Pass encodeValues false for <PLACEHOLDER> values meant to be replaced by hand.
+ */
+export function appendQueryParams(
+  url: string,
+  params: Record<string, string> | [string, string][],
+  encodeValues = true,
+): string {
+  const parts = (Array.isArray(params) ? params : Object.entries(params)).map(
+    ([name, value]) => `${encode(name)}=${encodeValues ? encode(value) : value}`,
+  );
+  if (parts.length === 0) {
+    return url;
+  }
+  return `${url}${url.includes("?") ? "&" : "?"}${parts.join("&")}`;
+}
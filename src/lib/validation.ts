@@ -1,3 +1,7 @@
+import { Parameter } from "../types/openapi";
+import { getPrimaryType, resolveSchema } from "./openapi-parser";
+import { describeNumberRange, isParameterRequired } from "./schema-fields";
+
 /**
  * Validate URL format
  * @param value - URL string to validate
@@ -43,3 +47,74 @@ export function validateJson(value: string): string | undefined {
     return "Invalid JSON format";
   }
 }
+
+/**
+ * Validate a parameter value against its schema
+ * @param param - Parameter being filled in
+ * @param value - Raw input value, empty when not set
+ * @returns Error message if invalid, undefined if valid
+ */
+export function validateParameter(param: Parameter, value: string | undefined): string | undefined {
+  if (!value) {
+    return isParameterRequired(param) ? `${param.name} is required` : undefined;
+  }
+  if (!param.schema) {
+    return undefined;
+  }
+
+  const schema = resolveSchema(param.schema);
+
+  if (schema.enum && schema.enum.length > 0 && !schema.enum.some((option) => String(option) === value)) {
+    return `Must be one of ${schema.enum.join(", ")}`;
+  }
+
+  const type = getPrimaryType(schema);
+  if (type === "integer" || type === "number") {
+    const number = Number(value);
+    if (!value.trim() || isNaN(number)) {
+      return "Must be a number";
+    }
+    if (type === "integer" && !Number.isInteger(number)) {
+      return "Must be a whole number";
+    }
+    if (schema.multipleOf && !Number.isInteger(number / schema.multipleOf)) {
+      return `Must be a multiple of ${schema.multipleOf}`;
+    }
+
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+    const tooLow =
+      typeof exclusiveMinimum === "number"
+        ? number <= exclusiveMinimum
+        : minimum !== undefined && (exclusiveMinimum ? number <= minimum : number < minimum);
+    const tooHigh =
+      typeof exclusiveMaximum === "number"
+        ? number >= exclusiveMaximum
+        : maximum !== undefined && (exclusiveMaximum ? number >= maximum : number > maximum);
+    if (tooLow || tooHigh) {
+      return `Must be ${describeNumberRange(schema)}`;
+    }
+    return undefined;
+  }
+
+  if (type === "boolean" && value !== "true" && value !== "false") {
+    return "Must be true or false";
+  }
+
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return `Must be at least ${schema.minLength} characters`;
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return `Must be at most ${schema.maxLength} characters`;
+  }
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern, "u").test(value)) {
+        return `Must match ${schema.pattern}`;
+      }
+    } catch {
+      // Patterns that aren't valid JavaScript regular expressions can't be checked
+    }
+  }
+
+  return undefined;
+}
@@ -14,7 +14,7 @@ import { useEffect, useState } from "react";
 import AddOpenAPISpec from "./add-openapi-spec";
 import { deleteSpec, duplicateSpec } from "./lib/storage";
 import { useSpecs } from "./hooks";
-import { BrowseEndpoints, EditSpecForm, SetTokenForm } from "./components";
+import { BrowseEndpoints, EditSpecForm, ImportCurlRequest, SetTokenForm } from "./components";
 import { StoredSpec } from "./types/openapi";
 
 // Re-export BrowseEndpoints for use in other commands
@@ -110,7 +110,7 @@ export default function ListSpecs(props: LaunchProps<{ launchContext: DeeplinkCo
                 />
                 <Action.Push
                   title="Set API Token"
-                  target={<SetTokenForm specId={spec.id} specName={spec.name} onSave={refresh} />}
+                  target={<SetTokenForm availableSpecs={specs} preselectedSpecId={spec.id} onSave={refresh} />}
                   icon={Icon.Key}
                   shortcut={{ modifiers: ["cmd"], key: "t" }}
                 />
@@ -120,6 +120,12 @@ export default function ListSpecs(props: LaunchProps<{ launchContext: DeeplinkCo
                   icon={Icon.Pencil}
                   shortcut={{ modifiers: ["cmd"], key: "e" }}
                 />
+                <Action.Push
+                  title="Paste Curl Command"
+                  target={<ImportCurlRequest specs={specs} />}
+                  icon={Icon.Terminal}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+                />
                 <Action.Push title="Add New Spec" target={<AddOpenAPISpec />} icon={Icon.Plus} />
                 <Action.OpenInBrowser title="Open Spec URL" url={spec.url} />
                 <Action
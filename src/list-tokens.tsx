@@ -23,6 +23,30 @@ function obfuscateToken(token: string): string {
   return `${start}${middle}`;
 }
 
+/**
+ * Short label for how a token is sent
+ */
+function getAuthTypeLabel(token: StoredToken): string {
+  switch (token.auth?.type) {
+    case "bearer":
+      return "Bearer";
+    case "api-key":
+      return `API Key (${token.auth.in || "header"})`;
+    case "basic":
+      return "Basic";
+    case "oauth2":
+      return "OAuth 2.0";
+    case "digest":
+      return "Digest";
+    case "aws-sigv4":
+      return `AWS SigV4 (${token.auth.aws?.region})`;
+    case "hmac":
+      return "HMAC";
+    default:
+      return "Auto";
+  }
+}
+
 export default function ListTokens() {
   const [tokens, setTokens] = useState<TokenWithSpec[]>([]);
   const [specs, setSpecs] = useState<StoredSpec[]>([]);
@@ -152,12 +176,17 @@ export default function ListTokens() {
             <List.Item
               key={tokenInfo.id}
               title={tokenInfo.name}
-              subtitle={obfuscateToken(tokenInfo.token)}
+              subtitle={
+                tokenInfo.auth?.username || tokenInfo.auth?.aws
+                  ? `${tokenInfo.auth.username || tokenInfo.auth.aws?.accessKeyId}:${obfuscateToken(tokenInfo.token)}`
+                  : obfuscateToken(tokenInfo.token)
+              }
               icon={{
                 source: Icon.Key,
                 tintColor: hasSpec ? Color.Green : Color.Orange,
               }}
               accessories={[
+                { text: getAuthTypeLabel(tokenInfo), tooltip: "Auth Type" },
                 { tag: statusTag, tooltip: statusTooltip },
                 hasSpec ? { text: specName, tooltip: "Default Spec" } : {},
                 tokenInfo.spec?.baseUrl ? { text: tokenInfo.spec.baseUrl, tooltip: "Base URL" } : {},
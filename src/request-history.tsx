@@ -3,32 +3,18 @@ import { useEffect, useState } from "react";
 import { getRequestHistory, deleteRequestHistoryEntry, clearRequestHistory, getSpec } from "./lib/storage";
 import { getMethodColor } from "./lib/colors";
 import { getErrorMessage } from "./lib/toast-utils";
-import { BrowseEndpoints, ResponseDetail } from "./components";
+import { SnippetRequest } from "./lib/snippet-request";
+import { BrowseEndpoints, ResponseDetail, SnippetActions } from "./components";
 import { RequestHistoryEntry, StoredSpec } from "./types/openapi";
 
-function generateCurlFromHistory(entry: RequestHistoryEntry): string {
-  const parts: string[] = ["curl"];
-
-  // Add method (skip for GET as it's default)
-  if (entry.method !== "GET") {
-    parts.push(`-X ${entry.method}`);
-  }
-
-  // Add headers
-  for (const [key, value] of Object.entries(entry.headers)) {
-    parts.push(`-H "${key}: ${value}"`);
-  }
-
-  // Add body if present
-  if (entry.body) {
-    const escapedBody = entry.body.replace(/'/g, "'\\''");
-    parts.push(`-d '${escapedBody}'`);
-  }
-
-  // Add URL
-  parts.push(`"${entry.url}"`);
-
-  return parts.join(" \\\n  ");
+// History keeps the masked headers, so copied snippets need the real credentials filled back in
+function getHistorySnippetRequest(entry: RequestHistoryEntry): SnippetRequest {
+  return {
+    method: entry.method,
+    url: entry.url,
+    headers: entry.headers,
+    body: entry.body,
+  };
 }
 
 export default function RequestHistory() {
@@ -134,9 +120,8 @@ export default function RequestHistory() {
                       icon={Icon.ArrowRight}
                       shortcut={{ modifiers: ["cmd"], key: "o" }}
                     />
-                    <Action.CopyToClipboard
-                      title="Copy as Curl"
-                      content={generateCurlFromHistory(entry)}
+                    <SnippetActions
+                      getRequest={() => getHistorySnippetRequest(entry)}
                       shortcut={{ modifiers: ["cmd"], key: "c" }}
                     />
                     <Action.CopyToClipboard
@@ -183,11 +168,14 @@ function RequestDetail({ entry }: RequestDetailProps) {
       statusText={entry.response.statusText}
       responseBody={entry.response.body}
       contentType={entry.response.contentType}
+      responseHeaders={entry.response.headers}
+      metrics={entry.response.metrics}
+      file={entry.response.file}
       requestBody={entry.body}
       headers={entry.headers}
       specName={entry.specName}
       timestamp={new Date(entry.timestamp).toLocaleString()}
-      curlCommand={generateCurlFromHistory(entry)}
+      snippetRequest={getHistorySnippetRequest(entry)}
     />
   );
 }
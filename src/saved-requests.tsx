@@ -0,0 +1,255 @@
+import { Action, ActionPanel, Alert, confirmAlert, Detail, Icon, List, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { deleteSavedRequest } from "./lib/storage";
+import { getMethodColor } from "./lib/colors";
+import { getErrorMessage } from "./lib/toast-utils";
+import {
+  executeSavedRequest,
+  getSavedRequestOptions,
+  loadSavedRequest,
+  SavedRequestContext,
+} from "./lib/saved-requests";
+import { buildSnippetRequest } from "./lib/snippet-request";
+import { formatMetricsSummary } from "./lib/format";
+import { createEventStream } from "./lib/event-stream";
+import { useEventStream, useSavedRequests } from "./hooks";
+import { EventStreamDetail, RequestForm, ResponseDetail, SaveRequestForm, SnippetActions } from "./components";
+import { SavedRequest } from "./types/openapi";
+
+export default function SavedRequests() {
+  const { savedRequests, collections, isLoading, refresh } = useSavedRequests();
+  const [selectedCollection, setSelectedCollection] = useState<string>("all");
+
+  async function handleDelete(saved: SavedRequest) {
+    const confirmed = await confirmAlert({
+      title: "Delete Saved Request",
+      message: `Are you sure you want to delete "${saved.name}"?`,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+
+    if (confirmed) {
+      await deleteSavedRequest(saved.id);
+      await refresh();
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Saved request deleted",
+      });
+    }
+  }
+
+  const visibleCollections = selectedCollection === "all" ? collections : [selectedCollection];
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search saved requests..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter by Collection" value={selectedCollection} onChange={setSelectedCollection}>
+          <List.Dropdown.Item title="All Collections" value="all" />
+          <List.Dropdown.Section title="Collections">
+            {collections.map((collection) => (
+              <List.Dropdown.Item key={collection} title={collection} value={collection} icon={Icon.Folder} />
+            ))}
+          </List.Dropdown.Section>
+        </List.Dropdown>
+      }
+    >
+      {savedRequests.length === 0 && !isLoading ? (
+        <List.EmptyView
+          title="No Saved Requests"
+          description="Fill in a request in the request builder and press ⌘S to save it"
+          icon={Icon.SaveDocument}
+        />
+      ) : (
+        visibleCollections.map((collection) => {
+          const requests = savedRequests.filter((saved) => saved.collection === collection);
+          return (
+            <List.Section key={collection} title={collection} subtitle={`${requests.length} requests`}>
+              {requests.map((saved) => (
+                <List.Item
+                  key={saved.id}
+                  title={saved.name}
+                  subtitle={`${saved.method} ${saved.path}`}
+                  keywords={[saved.method, saved.path, saved.specName, saved.operationId || ""]}
+                  icon={{ source: Icon.Circle, tintColor: getMethodColor(saved.method) }}
+                  accessories={[
+                    { text: saved.specName },
+                    { date: new Date(saved.updatedAt), tooltip: `Saved ${new Date(saved.updatedAt).toLocaleString()}` },
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      <Action.Push title="Run Request" target={<RunSavedRequest saved={saved} />} icon={Icon.Play} />
+                      <Action.Push
+                        title="Open in Request Builder"
+                        target={<OpenSavedRequest saved={saved} onSave={refresh} />}
+                        icon={Icon.Wand}
+                        shortcut={{ modifiers: ["cmd"], key: "o" }}
+                      />
+                      <SnippetActions
+                        getRequest={async () => {
+                          const context = await loadSavedRequest(saved, true);
+                          return buildSnippetRequest(context.endpoint, getSavedRequestOptions(context));
+                        }}
+                        shortcut={{ modifiers: ["cmd"], key: "c" }}
+                      />
+                      <Action.Push
+                        title="Rename or Move"
+                        target={<SaveRequestForm request={saved} existing={saved} onSave={refresh} />}
+                        icon={Icon.Pencil}
+                        shortcut={{ modifiers: ["cmd"], key: "e" }}
+                      />
+                      <Action
+                        title="Delete Saved Request"
+                        icon={Icon.Trash}
+                        style={Action.Style.Destructive}
+                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                        onAction={() => handleDelete(saved)}
+                      />
+                    </ActionPanel>
+                  }
+                />
+              ))}
+            </List.Section>
+          );
+        })
+      )}
+    </List>
+  );
+}
+
+interface SavedRequestViewProps {
+  saved: SavedRequest;
+}
+
+/**
+ * Sends the saved request as soon as it opens and shows the response
+ */
+function RunSavedRequest({ saved }: SavedRequestViewProps) {
+  const [run, setRun] = useState<Awaited<ReturnType<typeof executeSavedRequest>> | undefined>();
+  const [error, setError] = useState<string | undefined>();
+  const [stream] = useState(() => createEventStream());
+  const { response: streamResponse } = useEventStream(stream);
+
+  // Leaving while still connecting must end a stream nothing is showing yet
+  useEffect(() => () => stream.stop(), [stream]);
+
+  useEffect(() => {
+    async function execute() {
+      try {
+        await showToast({ style: Toast.Style.Animated, title: `Running ${saved.name}...` });
+        const executed = await executeSavedRequest(saved, stream);
+        setRun(executed);
+        const extractedNames = Object.keys(executed.extracted);
+        await showToast({
+          style: executed.result.ok ? Toast.Style.Success : Toast.Style.Failure,
+          title: `${executed.result.status} ${executed.result.statusText}`,
+          message: [
+            saved.name,
+            formatMetricsSummary(executed.result.metrics),
+            ...(executed.result.events ? [`${executed.result.events.length} events`] : []),
+            ...extractedNames.map((name) => `Extracted ${name}`),
+            ...Object.entries(executed.extractionErrors).map(
+              ([name, message]) => `Couldn't extract ${name}: ${message}`,
+            ),
+          ].join(" · "),
+        });
+      } catch (err) {
+        // Left the view before the response arrived, nothing is waiting for it
+        if (stream.signal.aborted) return;
+        const message = getErrorMessage(err);
+        setError(message);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Request failed",
+          message,
+        });
+      }
+    }
+
+    execute();
+  }, [saved.id]);
+
+  // Event streams show their events as they arrive, before the request finishes
+  if (streamResponse) {
+    return (
+      <EventStreamDetail
+        stream={stream}
+        method={saved.method}
+        path={saved.path}
+        specName={saved.specName}
+        snippetRequest={run && buildSnippetRequest(run.context.endpoint, getSavedRequestOptions(run.context))}
+      />
+    );
+  }
+
+  if (run) {
+    const { context, result, extracted } = run;
+    return (
+      <ResponseDetail
+        method={context.endpoint.method}
+        path={context.endpoint.path}
+        url={result.url}
+        status={result.status}
+        statusText={result.statusText}
+        responseBody={result.body}
+        contentType={result.contentType}
+        responseHeaders={result.headers}
+        metrics={result.metrics}
+        file={result.file}
+        specName={context.spec.name}
+        snippetRequest={buildSnippetRequest(context.endpoint, getSavedRequestOptions(context))}
+        extractedValues={extracted}
+      />
+    );
+  }
+
+  return (
+    <Detail
+      isLoading={!error}
+      navigationTitle={saved.name}
+      markdown={error ? `# Couldn't run ${saved.name}\n\n${error}` : ""}
+    />
+  );
+}
+
+/**
+ * Opens the request builder with the saved values, saving from it updates the saved request
+ */
+function OpenSavedRequest({ saved, onSave }: SavedRequestViewProps & { onSave: () => void }) {
+  const [context, setContext] = useState<SavedRequestContext | undefined>();
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    loadSavedRequest(saved)
+      .then(setContext)
+      .catch((err) => setError(getErrorMessage(err)));
+  }, [saved.id]);
+
+  if (context) {
+    return (
+      <RequestForm
+        endpoint={context.endpoint}
+        curlOptions={context.curlOptions}
+        specId={context.spec.id}
+        specName={context.spec.name}
+        servers={context.openApiSpec.servers}
+        serverSelection={context.spec.server}
+        environment={context.environment}
+        prefill={context.prefill}
+        savedRequest={saved}
+        onSaveRequest={onSave}
+      />
+    );
+  }
+
+  return (
+    <Detail
+      isLoading={!error}
+      navigationTitle={saved.name}
+      markdown={error ? `# Couldn't open ${saved.name}\n\n${error}` : ""}
+    />
+  );
+}